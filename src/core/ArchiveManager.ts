@@ -0,0 +1,91 @@
+import { App, Notice, TFile, normalizePath } from 'obsidian';
+import { Logger } from '../utils/logger';
+import type PopNotePlugin from './PopNotePlugin';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ArchiveManager {
+	private app: App;
+	private plugin: PopNotePlugin;
+	private logger: Logger;
+	private isRunning = false;
+
+	constructor(app: App, plugin: PopNotePlugin, logger: Logger) {
+		this.app = app;
+		this.plugin = plugin;
+		this.logger = logger;
+	}
+
+	getArchiveFolder(): string {
+		return normalizePath(this.plugin.settings.archiveFolder || 'PopNotes/Archive');
+	}
+
+	isArchived(file: TFile): boolean {
+		return file.path.startsWith(`${this.getArchiveFolder()}/`);
+	}
+
+	/**
+	 * Archive pop notes that haven't been modified for the configured number
+	 * of days. Pinned notes and the note in the PopNote window are kept.
+	 */
+	async archiveOldNotes() {
+		const settings = this.plugin.settings;
+		if (!settings.archiveEnabled || this.isRunning) {
+			return;
+		}
+
+		this.isRunning = true;
+		try {
+			const cutoff = Date.now() - Math.max(1, settings.archiveAfterDays) * DAY_MS;
+			const currentFile = this.plugin.getWindowManager().getCurrentFile();
+			const notes = await this.plugin.getPopNotesSorted();
+			const oldNotes = notes.filter(file =>
+				file.stat.mtime < cutoff &&
+				!settings.pinnedNotes.includes(file.path) &&
+				file.path !== currentFile?.path
+			);
+
+			for (const file of oldNotes) {
+				await this.archiveNote(file);
+			}
+
+			if (oldNotes.length > 0) {
+				this.logger.log(`Archived ${oldNotes.length} old PopNotes`);
+				new Notice(`PopNote: Archived ${oldNotes.length} old ${oldNotes.length === 1 ? 'note' : 'notes'}`);
+			}
+		} catch (error) {
+			this.logger.error('Error archiving old PopNotes:', error);
+		} finally {
+			this.isRunning = false;
+		}
+	}
+
+	/**
+	 * Move a note to the archive folder or Obsidian's trash, depending on the archive mode.
+	 */
+	async archiveNote(file: TFile) {
+		if (this.plugin.settings.archiveMode === 'trash') {
+			// Use the vault's .trash folder so notes can be restored
+			await this.app.vault.trash(file, false);
+			this.logger.log('Moved PopNote to trash:', file.path);
+			return;
+		}
+
+		const archiveFolder = this.getArchiveFolder();
+		if (!this.app.vault.getAbstractFileByPath(archiveFolder)) {
+			await this.app.vault.createFolder(archiveFolder);
+		}
+
+		let newPath = normalizePath(`${archiveFolder}/${file.name}`);
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(newPath)) {
+			newPath = normalizePath(`${archiveFolder}/${file.basename} ${counter}.${file.extension}`);
+			counter++;
+		}
+
+		// renameFile updates links to the note
+		const oldPath = file.path;
+		await this.app.fileManager.renameFile(file, newPath);
+		this.logger.log(`Archived PopNote: ${oldPath} -> ${newPath}`);
+	}
+}
@@ -0,0 +1,90 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { Logger } from '../utils/logger';
+import { sanitizeFileName } from '../utils/fileName';
+import { stripFrontmatter } from '../utils/markdown';
+import type PopNotePlugin from './PopNotePlugin';
+
+export class AutoTitleManager {
+	private app: App;
+	private plugin: PopNotePlugin;
+	private logger: Logger;
+
+	constructor(app: App, plugin: PopNotePlugin, logger: Logger) {
+		this.app = app;
+		this.plugin = plugin;
+		this.logger = logger;
+	}
+
+	async applyAutoTitle(file: TFile) {
+		if (this.plugin.settings.autoTitleMode === 'off') {
+			return;
+		}
+
+		// Only rename pop notes, never regular notes opened in the window
+		if (!this.plugin.getProfileManager().getProfileForFile(file)) {
+			return;
+		}
+
+		// The file may have been deleted while the window was open
+		if (!(this.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) {
+			return;
+		}
+
+		const content = await this.app.vault.read(file);
+		const title = sanitizeFileName(this.extractTitle(content));
+		if (!title || this.hasTitle(file, title)) {
+			return;
+		}
+
+		const folderPath = file.parent?.path || '';
+		const newPath = this.getAvailablePath(folderPath, title);
+
+		try {
+			// renameFile also updates links; the vault rename event keeps tracking data in sync
+			await this.app.fileManager.renameFile(file, newPath);
+			this.logger.log(`Auto-titled PopNote: ${file.path}`);
+		} catch (error) {
+			this.logger.error('Failed to auto-title PopNote:', error);
+		}
+	}
+
+	private extractTitle(content: string): string {
+		const lines = stripFrontmatter(content).split('\n');
+
+		if (this.plugin.settings.autoTitleMode === 'heading') {
+			const heading = lines.find(line => /^#{1,6}\s+\S/.test(line));
+			return heading ? heading.replace(/^#{1,6}\s+/, '') : '';
+		}
+
+		// First non-empty line, without list, quote, task or heading markers
+		const firstLine = lines.find(line => line.trim().length > 0) || '';
+		return firstLine
+			.trim()
+			.replace(/^#{1,6}\s+/, '')
+			.replace(/^>\s*/, '')
+			.replace(/^([-*+]|\d+[.)])\s+/, '')
+			.replace(/^\[[ xX]\]\s+/, '');
+	}
+
+	private hasTitle(file: TFile, title: string): boolean {
+		// Also treat "Title 2" as already titled, as it results from a name collision
+		return file.basename === title || new RegExp(`^${this.escapeRegExp(title)} \\d+$`).test(file.basename);
+	}
+
+	private getAvailablePath(folderPath: string, title: string): string {
+		const toPath = (name: string) => normalizePath(folderPath ? `${folderPath}/${name}.md` : `${name}.md`);
+
+		let candidate = title;
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(toPath(candidate))) {
+			candidate = `${title} ${counter}`;
+			counter++;
+		}
+
+		return toPath(candidate);
+	}
+
+	private escapeRegExp(value: string): string {
+		return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+}
@@ -0,0 +1,124 @@
+import { App, Notice, TFile, moment, normalizePath } from 'obsidian';
+import { Logger } from '../utils/logger';
+import { appendBlock, insertUnderHeading, prependBlock } from '../utils/markdown';
+import { getOrCreateDailyNote } from '../utils/dailyNotes';
+import type PopNotePlugin from './PopNotePlugin';
+
+const CAPTURE_FILE_NAME = 'PopNote Capture.md';
+
+/**
+ * Quick capture for append mode. The PopNote window shows a scratch note,
+ * and whatever was written there is moved into the append target on hide.
+ */
+export class CaptureManager {
+	private app: App;
+	private plugin: PopNotePlugin;
+	private logger: Logger;
+
+	constructor(app: App, plugin: PopNotePlugin, logger: Logger) {
+		this.app = app;
+		this.plugin = plugin;
+		this.logger = logger;
+	}
+
+	getCaptureFilePath(): string {
+		const profileManager = this.plugin.getProfileManager();
+		return normalizePath(`${profileManager.getProfileFolder(profileManager.getProfile())}/${CAPTURE_FILE_NAME}`);
+	}
+
+	isCaptureFile(file: TFile): boolean {
+		return file.path === this.getCaptureFilePath();
+	}
+
+	async getOrCreateCaptureFile(): Promise<TFile> {
+		const path = this.getCaptureFilePath();
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			return existing;
+		}
+
+		const folderPath = path.substring(0, path.lastIndexOf('/'));
+		if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+		return await this.app.vault.create(path, '');
+	}
+
+	/**
+	 * Move the contents of the capture note into the append target and
+	 * clear the capture note.
+	 */
+	async flushCapture(file: TFile) {
+		// The file may have been deleted while the window was open
+		if (!(this.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) {
+			return;
+		}
+
+		// Text typed just before the window was hidden may not be on disk yet
+		await this.plugin.getWindowManager().saveEditors(file);
+		const text = (await this.app.vault.read(file)).trim();
+		if (!text) {
+			return;
+		}
+
+		try {
+			const settings = this.plugin.settings;
+			const targetFile = await this.getAppendTarget();
+			await this.insertIntoNote(targetFile, this.formatEntry(text), settings.appendHeading, 'append', settings.appendTimestamp ? '\n' : '\n\n');
+			await this.app.vault.modify(file, '');
+			this.logger.log('Appended capture to:', targetFile.path);
+		} catch (error) {
+			// Keep the capture so nothing is lost
+			this.logger.error('Error appending capture:', error);
+			new Notice('PopNote: Could not append capture, it was kept in the capture note');
+		}
+	}
+
+	/**
+	 * Insert text at the end or start of a note, or of a heading inside it.
+	 */
+	async insertIntoNote(file: TFile, text: string, heading = '', position: 'append' | 'prepend' = 'append', separator = '\n\n') {
+		await this.app.vault.process(file, data => {
+			if (heading.trim()) {
+				return insertUnderHeading(data, heading, text, position, separator);
+			}
+			if (position === 'prepend') {
+				return prependBlock(data, text, separator);
+			}
+			return appendBlock(data, text, separator);
+		});
+	}
+
+	private async getAppendTarget(): Promise<TFile> {
+		const settings = this.plugin.settings;
+		if (settings.appendTarget === 'daily') {
+			return await getOrCreateDailyNote(this.app);
+		}
+
+		const inboxPath = normalizePath(settings.appendInboxNote || 'Inbox.md');
+		const path = inboxPath.endsWith('.md') ? inboxPath : `${inboxPath}.md`;
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			return existing;
+		}
+
+		const folderPath = path.substring(0, path.lastIndexOf('/'));
+		if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+		return await this.app.vault.create(path, '');
+	}
+
+	private formatEntry(text: string): string {
+		const settings = this.plugin.settings;
+		if (!settings.appendTimestamp) {
+			return text;
+		}
+
+		// Bullet with the timestamp, continuation lines are indented under it
+		const [firstLine, ...rest] = text.split('\n');
+		const timestamp = moment().format(settings.appendTimestampFormat || 'YYYY-MM-DD HH:mm');
+		const lines = [`- ${timestamp} ${firstLine}`.trimEnd(), ...rest.map(line => line ? `  ${line}` : line)];
+		return lines.join('\n');
+	}
+}
@@ -0,0 +1,62 @@
+import { App, TFile, moment } from 'obsidian';
+import { Logger } from '../utils/logger';
+import { getRemote } from '../utils/platform';
+
+export class ClipboardManager {
+	private app: App;
+	private logger: Logger;
+
+	constructor(app: App, logger: Logger) {
+		this.app = app;
+		this.logger = logger;
+	}
+
+	async hasContent(): Promise<boolean> {
+		const clipboard = getRemote()?.clipboard;
+		if (!clipboard) {
+			return !!(await this.readTextFallback());
+		}
+		const image = clipboard.readImage();
+		return (image && !image.isEmpty()) || !!clipboard.readText();
+	}
+
+	/**
+	 * Get the clipboard contents as Markdown. Images are saved as vault
+	 * attachments and returned as an embed. Returns an empty string if the
+	 * clipboard is empty.
+	 */
+	async getClipboardMarkdown(sourcePath: string): Promise<string> {
+		const clipboard = getRemote()?.clipboard;
+		if (!clipboard) {
+			// Images can only be read through Electron
+			return this.readTextFallback();
+		}
+
+		const image = clipboard.readImage();
+		if (image && !image.isEmpty()) {
+			const attachment = await this.saveImageAttachment(image.toPNG(), sourcePath);
+			return `!${this.app.fileManager.generateMarkdownLink(attachment, sourcePath)}`;
+		}
+
+		return clipboard.readText() || '';
+	}
+
+	private async readTextFallback(): Promise<string> {
+		try {
+			return await navigator.clipboard.readText();
+		} catch (error) {
+			this.logger.warn('Could not read the clipboard:', error);
+			return '';
+		}
+	}
+
+	private async saveImageAttachment(png: Uint8Array, sourcePath: string): Promise<TFile> {
+		const fileName = `Pasted image ${moment().format('YYYYMMDDHHmmss')}.png`;
+		const attachmentPath = await this.app.fileManager.getAvailablePathForAttachment(fileName, sourcePath);
+		// Copy into a standalone ArrayBuffer, the Buffer may be a view into a larger pool
+		const data = png.buffer.slice(png.byteOffset, png.byteOffset + png.byteLength);
+		const file = await this.app.vault.createBinary(attachmentPath, data);
+		this.logger.log('Saved clipboard image as attachment:', file.path);
+		return file;
+	}
+}
@@ -0,0 +1,120 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { Logger } from '../utils/logger';
+import type PopNotePlugin from './PopNotePlugin';
+
+type MomentInstance = ReturnType<typeof moment>;
+export type DigestPeriod = 'day' | 'week';
+
+export class DigestManager {
+	private app: App;
+	private plugin: PopNotePlugin;
+	private logger: Logger;
+
+	constructor(app: App, plugin: PopNotePlugin, logger: Logger) {
+		this.app = app;
+		this.plugin = plugin;
+		this.logger = logger;
+	}
+
+	getDigestFolder(): string {
+		return normalizePath(this.plugin.settings.digestFolder || 'PopNotes/Digests');
+	}
+
+	isDigest(file: TFile): boolean {
+		return file.path.startsWith(`${this.getDigestFolder()}/`);
+	}
+
+	getDigestPath(period: DigestPeriod, date: MomentInstance): string {
+		const suffix = period === 'day' ? date.format('YYYY-MM-DD') : date.format('GGGG-[W]WW');
+		return normalizePath(`${this.getDigestFolder()}/PopNotes digest ${suffix}.md`);
+	}
+
+	/**
+	 * Create or update the digest note for the day or ISO week containing the
+	 * date. The digest only depends on the notes, so re-running it for the
+	 * same period leaves an unchanged digest untouched.
+	 */
+	async createDigest(period: DigestPeriod, date: MomentInstance = moment(), skipIfEmpty = false): Promise<TFile | null> {
+		const start = date.clone().startOf(period === 'day' ? 'day' : 'isoWeek');
+		const end = date.clone().endOf(period === 'day' ? 'day' : 'isoWeek');
+		const notes = (await this.plugin.getPopNotesSorted())
+			.filter(file => file.stat.ctime >= start.valueOf() && file.stat.ctime <= end.valueOf())
+			.sort((a, b) => a.stat.ctime - b.stat.ctime);
+
+		if (notes.length === 0 && skipIfEmpty) {
+			return null;
+		}
+
+		const path = this.getDigestPath(period, start);
+		const content = this.buildDigest(period, start, notes, path);
+		const existing = this.app.vault.getAbstractFileByPath(path);
+
+		if (existing instanceof TFile) {
+			if (await this.app.vault.read(existing) !== content) {
+				await this.app.vault.modify(existing, content);
+				this.logger.log('Updated PopNotes digest:', path);
+			}
+			return existing;
+		}
+
+		const folderPath = this.getDigestFolder();
+		if (!this.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+		const file = await this.app.vault.create(path, content);
+		this.logger.log('Created PopNotes digest:', path);
+		return file;
+	}
+
+	/**
+	 * Keep the automatic digests up to date: the current period, and the
+	 * previous one so notes changed late are included.
+	 */
+	async runAutoDigest() {
+		const period = this.plugin.settings.digestAutoPeriod;
+		if (period === 'off') {
+			return;
+		}
+
+		try {
+			const unit = period === 'day' ? 'day' : 'week';
+			await this.createDigest(period, moment().subtract(1, unit), true);
+			await this.createDigest(period, moment(), true);
+		} catch (error) {
+			this.logger.error('Error creating automatic PopNotes digest:', error);
+		}
+	}
+
+	private buildDigest(period: DigestPeriod, start: MomentInstance, notes: TFile[], digestPath: string): string {
+		const title = period === 'day'
+			? `PopNotes digest ${start.format('YYYY-MM-DD')}`
+			: `PopNotes digest ${start.format('GGGG-[W]WW')} (${start.format('YYYY-MM-DD')} to ${start.clone().endOf('isoWeek').format('YYYY-MM-DD')})`;
+		const lines = [`# ${title}`, ''];
+
+		if (notes.length === 0) {
+			lines.push('No PopNotes in this period.', '');
+			return lines.join('\n');
+		}
+
+		const pinnedNotes = this.plugin.settings.pinnedNotes;
+		let currentDay = '';
+		for (const file of notes) {
+			const created = moment(file.stat.ctime);
+			const day = created.format('YYYY-MM-DD');
+			if (day !== currentDay) {
+				currentDay = day;
+				lines.push(`## ${created.format('dddd, YYYY-MM-DD')}`, '');
+			}
+
+			const embed = `!${this.app.fileManager.generateMarkdownLink(file, digestPath)}`;
+			if (pinnedNotes.includes(file.path)) {
+				// Highlight pinned notes with a callout around the embed
+				lines.push(`> [!important] 📌 ${created.format('HH:mm')} · ${file.basename}`, `> ${embed}`, '');
+			} else {
+				lines.push(`### ${created.format('HH:mm')} · ${file.basename}`, '', embed, '');
+			}
+		}
+
+		return lines.join('\n');
+	}
+}
@@ -0,0 +1,148 @@
+import { App, Notice, TFile, moment, normalizePath } from 'obsidian';
+import { Logger } from '../utils/logger';
+import { ExportOptions } from '../types';
+import { stripFrontmatter } from '../utils/markdown';
+import { createZip } from '../utils/zip';
+import { getRemote, writeFileToDisk } from '../utils/platform';
+import type PopNotePlugin from './PopNotePlugin';
+
+const FILE_EXTENSIONS: { [format: string]: string } = {
+	markdown: 'md',
+	json: 'json',
+	zip: 'zip'
+};
+
+export class ExportManager {
+	private app: App;
+	private plugin: PopNotePlugin;
+	private logger: Logger;
+
+	constructor(app: App, plugin: PopNotePlugin, logger: Logger) {
+		this.app = app;
+		this.plugin = plugin;
+		this.logger = logger;
+	}
+
+	async exportNotes(options: ExportOptions) {
+		const notes = await this.getNotesToExport(options);
+		if (notes.length === 0) {
+			new Notice('PopNote: No notes match the export filters');
+			return;
+		}
+
+		const fileName = `PopNotes export ${moment().format('YYYY-MM-DD HHmmss')}.${FILE_EXTENSIONS[options.format]}`;
+		try {
+			const data = await this.buildExport(notes, options.format);
+			const exportPath = options.destination === 'disk'
+				? await this.writeToDisk(fileName, data)
+				: await this.writeToVault(options.vaultFolder, fileName, data);
+			if (!exportPath) {
+				// Save dialog was cancelled
+				return;
+			}
+
+			this.logger.log(`Exported ${notes.length} PopNotes to:`, exportPath);
+			new Notice(`PopNote: Exported ${notes.length} ${notes.length === 1 ? 'note' : 'notes'} to ${exportPath}`);
+		} catch (error) {
+			this.logger.error('Failed to export PopNotes:', error);
+			new Notice(`PopNote: Export failed: ${error.message}`);
+		}
+	}
+
+	private async getNotesToExport(options: ExportOptions): Promise<TFile[]> {
+		const notes = await this.plugin.getPopNotesSorted({ profileId: options.profileId || undefined });
+		const from = options.from ? moment(options.from, 'YYYY-MM-DD', true).startOf('day') : null;
+		const to = options.to ? moment(options.to, 'YYYY-MM-DD', true).endOf('day') : null;
+		const pinnedNotes = this.plugin.settings.pinnedNotes;
+
+		return notes
+			.filter(file => {
+				if (from?.isValid() && file.stat.ctime < from.valueOf()) {
+					return false;
+				}
+				if (to?.isValid() && file.stat.ctime > to.valueOf()) {
+					return false;
+				}
+				const isPinned = pinnedNotes.includes(file.path);
+				return options.pinned === 'all' || (options.pinned === 'pinned') === isPinned;
+			})
+			// Exports read best in chronological order
+			.sort((a, b) => a.stat.ctime - b.stat.ctime);
+	}
+
+	private async buildExport(notes: TFile[], format: ExportOptions['format']): Promise<string | Uint8Array> {
+		if (format === 'zip') {
+			const encoder = new TextEncoder();
+			const entries = [];
+			for (const file of notes) {
+				entries.push({
+					path: file.path,
+					data: encoder.encode(await this.app.vault.read(file)),
+					modified: new Date(file.stat.mtime)
+				});
+			}
+			return createZip(entries);
+		}
+
+		if (format === 'json') {
+			const exportedNotes = [];
+			for (const file of notes) {
+				exportedNotes.push({
+					path: file.path,
+					name: file.basename,
+					profile: this.plugin.getProfileManager().getProfileForFile(file)?.name || null,
+					ctime: file.stat.ctime,
+					mtime: file.stat.mtime,
+					pinned: this.plugin.settings.pinnedNotes.includes(file.path),
+					content: await this.app.vault.read(file)
+				});
+			}
+			return JSON.stringify({ exportedAt: new Date().toISOString(), notes: exportedNotes }, null, 2);
+		}
+
+		// Markdown digest
+		const sections: string[] = [];
+		for (const file of notes) {
+			const created = moment(file.stat.ctime).format('YYYY-MM-DD HH:mm');
+			const modified = moment(file.stat.mtime).format('YYYY-MM-DD HH:mm');
+			const text = stripFrontmatter(await this.app.vault.read(file)).trim();
+			sections.push(`## ${file.basename}\n\n*Created ${created} · Modified ${modified}*${text ? `\n\n${text}` : ''}`);
+		}
+		const header = `# PopNotes export\n\nExported ${moment().format('YYYY-MM-DD HH:mm')} · ${notes.length} ${notes.length === 1 ? 'note' : 'notes'}`;
+		return `${header}\n\n---\n\n${sections.join('\n\n---\n\n')}\n`;
+	}
+
+	private async writeToVault(folder: string, fileName: string, data: string | Uint8Array): Promise<string> {
+		const folderPath = folder ? normalizePath(folder) : '';
+		if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+
+		const path = normalizePath(folderPath ? `${folderPath}/${fileName}` : fileName);
+		if (typeof data === 'string') {
+			await this.app.vault.create(path, data);
+		} else {
+			// Copy into a standalone ArrayBuffer for the vault API
+			await this.app.vault.createBinary(path, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+		}
+		return path;
+	}
+
+	private async writeToDisk(fileName: string, data: string | Uint8Array): Promise<string | null> {
+		const remote = getRemote();
+		if (!remote) {
+			throw new Error('Saving outside the vault is not available on this platform');
+		}
+
+		const result = await remote.dialog.showSaveDialog(remote.getCurrentWindow(), {
+			title: 'Export PopNotes',
+			defaultPath: fileName
+		});
+		if (result.canceled || !result.filePath) {
+			return null;
+		}
+
+		await writeFileToDisk(result.filePath, data);
+		return result.filePath;
+	}
+}
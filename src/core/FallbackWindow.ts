@@ -0,0 +1,80 @@
+import { App, WorkspaceContainer, WorkspaceLeaf, WorkspaceWindow } from 'obsidian';
+
+/**
+ * The part of the Electron BrowserWindow API that PopNote uses for the
+ * PopNote window, so fallback windows can stand in for it.
+ */
+export interface PopNoteWindowHandle {
+	id: number | string;
+	isDestroyed(): boolean;
+	isVisible(): boolean;
+	show(): void;
+	focus(): void;
+	hide(): void;
+	close(): void;
+	destroy(): void;
+}
+
+/**
+ * A regular Obsidian popout used as the PopNote window when PopNote cannot
+ * manage Electron windows. A popout cannot be hidden, so hiding closes it and
+ * the next show opens a new one.
+ */
+export class PopoutWindow implements PopNoteWindowHandle {
+	id = `popout-${Date.now()}`;
+	private app: App;
+	private leaf: WorkspaceLeaf;
+	private container: WorkspaceContainer;
+	private hiddenByPopNote = false;
+
+	constructor(app: App, leaf: WorkspaceLeaf) {
+		this.app = app;
+		this.leaf = leaf;
+		this.container = leaf.getContainer();
+	}
+
+	getContainer(): WorkspaceContainer {
+		return this.container;
+	}
+
+	/**
+	 * Whether PopNote closed the popout, as opposed to the user.
+	 */
+	wasHiddenByPopNote(): boolean {
+		return this.hiddenByPopNote;
+	}
+
+	isDestroyed(): boolean {
+		return !(this.leaf.getContainer() instanceof WorkspaceWindow) || !!(this.leaf as any).detached;
+	}
+
+	isVisible(): boolean {
+		return !this.isDestroyed();
+	}
+
+	show() {
+		this.focus();
+	}
+
+	focus() {
+		if (!this.isDestroyed()) {
+			this.app.workspace.setActiveLeaf(this.leaf, { focus: true });
+			(this.leaf.getContainer() as WorkspaceWindow).win.focus();
+		}
+	}
+
+	hide() {
+		this.hiddenByPopNote = true;
+		this.close();
+	}
+
+	close() {
+		if (!this.isDestroyed()) {
+			this.leaf.detach();
+		}
+	}
+
+	destroy() {
+		this.close();
+	}
+}
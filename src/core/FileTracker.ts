@@ -71,10 +71,58 @@ export class FileTracker {
 		}
 	}
 
+	untrackFile(filePath: string): void {
+		const fileId = this.settings.fileTracking?.pathToFileId?.[filePath];
+		if (fileId) {
+			delete this.settings.fileTracking.pathToFileId[filePath];
+			if (this.settings.fileTracking.fileIdToPath[fileId] === filePath) {
+				delete this.settings.fileTracking.fileIdToPath[fileId];
+			}
+			this.logger.log(`Stopped tracking ${filePath}`);
+		}
+	}
+
 	getTrackedPath(fileId: string): string | undefined {
 		return this.settings.fileTracking?.fileIdToPath?.[fileId];
 	}
 
+	/**
+	 * Remember the content of a new note, to tell later whether it was
+	 * changed from the template.
+	 */
+	setInitialContent(file: TFile, content: string): void {
+		const fileId = this.getFileId(file);
+		if (!fileId) {
+			return;
+		}
+		if (!this.settings.fileTracking.initialContentHashes) {
+			this.settings.fileTracking.initialContentHashes = {};
+		}
+		this.settings.fileTracking.initialContentHashes[fileId] = this.hashContent(content);
+	}
+
+	isInitialContent(file: TFile, content: string): boolean {
+		const fileId = this.getFileId(file);
+		const initialHash = fileId ? this.settings.fileTracking?.initialContentHashes?.[fileId] : undefined;
+		return initialHash !== undefined && initialHash === this.hashContent(content);
+	}
+
+	clearInitialContent(filePath: string): void {
+		const fileId = this.settings.fileTracking?.pathToFileId?.[filePath];
+		if (fileId && this.settings.fileTracking.initialContentHashes?.[fileId]) {
+			delete this.settings.fileTracking.initialContentHashes[fileId];
+		}
+	}
+
+	private hashContent(content: string): string {
+		// djb2, only used to compare note contents
+		let hash = 5381;
+		for (let i = 0; i < content.length; i++) {
+			hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+		}
+		return `${content.length}:${(hash >>> 0).toString(16)}`;
+	}
+
 	saveCursorPosition(filePath: string, position: { line: number; ch: number }): void {
 		if (!this.settings.cursorPositions) {
 			this.settings.cursorPositions = {};
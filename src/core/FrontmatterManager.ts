@@ -0,0 +1,96 @@
+import { App, TFile, moment } from 'obsidian';
+import { Logger } from '../utils/logger';
+import { getHostname } from '../utils/platform';
+import { PopNoteProfile, PopNoteStatus } from '../types';
+import type PopNotePlugin from './PopNotePlugin';
+
+type MomentInstance = ReturnType<typeof moment>;
+
+// Review status of a note, notes without it are unprocessed
+const STATUS_PROPERTY = 'popnote-status';
+
+// Properties written by PopNote, tags are left alone as they are user-facing
+const POPNOTE_PROPERTIES = ['created', 'popnote', 'profile', 'source', 'hostname', STATUS_PROPERTY];
+
+export class FrontmatterManager {
+	private app: App;
+	private plugin: PopNotePlugin;
+	private logger: Logger;
+
+	constructor(app: App, plugin: PopNotePlugin, logger: Logger) {
+		this.app = app;
+		this.plugin = plugin;
+		this.logger = logger;
+	}
+
+	/**
+	 * Write PopNote metadata into the frontmatter of a new note, so pop notes
+	 * can be found by Dataview and Search even after the file ctime is lost.
+	 * Existing frontmatter from the template is kept.
+	 */
+	async stampNewNote(file: TFile, profile: PopNoteProfile, source: string, now: MomentInstance) {
+		if (!this.plugin.settings.frontmatterStamping) {
+			return;
+		}
+
+		const hostname = this.getHostname();
+		const defaultTags = this.plugin.settings.frontmatterTags;
+
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: any) => {
+			frontmatter.created = now.format('YYYY-MM-DDTHH:mm:ss');
+			frontmatter.popnote = true;
+			frontmatter.profile = profile.name;
+			frontmatter.source = source;
+			if (hostname) {
+				frontmatter.hostname = hostname;
+			}
+
+			if (defaultTags.length > 0) {
+				// Merge with tags from the template, which may be a list or a string
+				const existingTags: string[] = Array.isArray(frontmatter.tags)
+					? frontmatter.tags
+					: typeof frontmatter.tags === 'string'
+						? frontmatter.tags.split(/[,\s]+/).filter((tag: string) => tag)
+						: [];
+				frontmatter.tags = Array.from(new Set([...existingTags, ...defaultTags]));
+			}
+		});
+
+		this.logger.log('Stamped frontmatter on:', file.path);
+	}
+
+	getStatus(file: TFile): PopNoteStatus {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return frontmatter?.[STATUS_PROPERTY] === 'processed' ? 'processed' : 'unprocessed';
+	}
+
+	async setStatus(file: TFile, status: PopNoteStatus) {
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: any) => {
+			if (status === 'unprocessed') {
+				delete frontmatter[STATUS_PROPERTY];
+			} else {
+				frontmatter[STATUS_PROPERTY] = status;
+			}
+		});
+	}
+
+	/**
+	 * Remove the PopNote properties, e.g. when a note is filed into the vault.
+	 */
+	async stripPopNoteFrontmatter(file: TFile) {
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: any) => {
+			for (const property of POPNOTE_PROPERTIES) {
+				delete frontmatter[property];
+			}
+		});
+	}
+
+	private getHostname(): string {
+		try {
+			return getHostname();
+		} catch (error) {
+			this.logger.warn('Could not read hostname:', error);
+			return '';
+		}
+	}
+}
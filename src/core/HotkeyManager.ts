@@ -1,33 +1,46 @@
 import { Notice } from 'obsidian';
 import { Logger } from '../utils/logger';
+import { getRemote } from '../utils/platform';
 
-// Access Electron APIs
-const { remote } = require('electron');
-const { globalShortcut } = remote;
+// Electron's globalShortcut, or undefined without Electron remote
+function getGlobalShortcut(): any {
+	return getRemote()?.globalShortcut;
+}
 
 export class HotkeyManager {
-	private registeredHotkeys: string[] = [];
+	// Maps action ID to the accelerator registered for it
+	private registeredHotkeys: Map<string, string> = new Map();
 	private logger: Logger;
 
 	constructor(logger: Logger) {
 		this.logger = logger;
 	}
 
-	registerGlobalHotkey(hotkey: string, callback: () => void): boolean {
+	registerGlobalHotkey(actionId: string, hotkey: string, callback: () => void): boolean {
+		const globalShortcut = getGlobalShortcut();
 		if (!globalShortcut) {
 			this.logger.error('globalShortcut is not available');
 			new Notice('PopNote: Global shortcuts are not available. Plugin may not work correctly.');
 			return false;
 		}
 
-		// Unregister existing hotkey if any
-		this.unregisterAll();
+		// Unregister the hotkey previously bound to this action, if any
+		this.unregisterHotkey(actionId);
 
 		if (!hotkey || !this.isValidHotkey(hotkey)) {
 			this.logger.warn('Invalid or empty hotkey:', hotkey);
 			return false;
 		}
 
+		// Check if another PopNote action already uses this hotkey
+		for (const [otherActionId, otherHotkey] of this.registeredHotkeys) {
+			if (otherHotkey === hotkey) {
+				this.logger.warn(`Hotkey ${hotkey} is already used by ${otherActionId}, skipping ${actionId}`);
+				new Notice(`PopNote: Hotkey ${hotkey} is assigned to more than one action. Only the first one will work.`);
+				return false;
+			}
+		}
+
 		// Check if already registered
 		if (globalShortcut.isRegistered(hotkey)) {
 			this.logger.log(`Hotkey ${hotkey} is already registered, unregistering first...`);
@@ -38,8 +51,8 @@ export class HotkeyManager {
 			const success = globalShortcut.register(hotkey, callback);
 			
 			if (success) {
-				this.logger.log(`Successfully registered global hotkey: ${hotkey}`);
-				this.registeredHotkeys.push(hotkey);
+				this.logger.log(`Successfully registered global hotkey for ${actionId}: ${hotkey}`);
+				this.registeredHotkeys.set(actionId, hotkey);
 				// Only show success notification in debug mode
 				if (this.logger.isDebugMode()) {
 					new Notice(`PopNote: Global hotkey ${hotkey} registered successfully`);
@@ -57,30 +70,46 @@ export class HotkeyManager {
 		}
 	}
 
+	unregisterHotkey(actionId: string) {
+		const hotkey = this.registeredHotkeys.get(actionId);
+		const globalShortcut = getGlobalShortcut();
+		if (!hotkey || !globalShortcut) {
+			return;
+		}
+
+		try {
+			if (globalShortcut.isRegistered(hotkey)) {
+				globalShortcut.unregister(hotkey);
+				this.logger.log(`Successfully unregistered hotkey for ${actionId}: ${hotkey}`);
+			} else {
+				this.logger.log(`Hotkey ${hotkey} was not registered`);
+			}
+		} catch (error) {
+			this.logger.error(`Error unregistering hotkey ${hotkey}:`, error);
+		}
+
+		this.registeredHotkeys.delete(actionId);
+	}
+
 	unregisterAll() {
-		if (!globalShortcut) {
+		if (!getGlobalShortcut()) {
 			this.logger.log('globalShortcut not available, skipping unregister');
 			return;
 		}
 
 		this.logger.log('Unregistering global hotkeys...');
-		this.registeredHotkeys.forEach(hotkey => {
-			try {
-				if (globalShortcut.isRegistered(hotkey)) {
-					globalShortcut.unregister(hotkey);
-					this.logger.log(`Successfully unregistered hotkey: ${hotkey}`);
-				} else {
-					this.logger.log(`Hotkey ${hotkey} was not registered`);
-				}
-			} catch (error) {
-				this.logger.error(`Error unregistering hotkey ${hotkey}:`, error);
-			}
+		Array.from(this.registeredHotkeys.keys()).forEach(actionId => {
+			this.unregisterHotkey(actionId);
 		});
 		
-		this.registeredHotkeys = [];
+		this.registeredHotkeys.clear();
 		this.logger.log('All global hotkeys unregistered');
 	}
 
+	getRegisteredHotkey(actionId: string): string | undefined {
+		return this.registeredHotkeys.get(actionId);
+	}
+
 	isValidHotkey(hotkey: string): boolean {
 		if (!hotkey || typeof hotkey !== 'string') {
 			return false;
@@ -109,6 +138,6 @@ export class HotkeyManager {
 	}
 
 	isGlobalShortcutAvailable(): boolean {
-		return !!globalShortcut;
+		return !!getGlobalShortcut();
 	}
-}
\ No newline at end of file
+}
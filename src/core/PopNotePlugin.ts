@@ -1,16 +1,31 @@
-import { App, Notice, Plugin, TFile, TFolder, normalizePath, MarkdownView } from 'obsidian';
-import { PopNoteSettings } from '../types';
-import { DEFAULT_SETTINGS } from '../settings/settings';
+import { App, Notice, Plugin, TFile, TFolder, normalizePath, MarkdownView, moment } from 'obsidian';
+import { CreateNoteOptions, FileNoteOptions, PopNoteProfile, PopNoteSettings, PopNotesQuery, SendToOptions } from '../types';
+import { DEFAULT_PROFILE_ID, DEFAULT_SETTINGS } from '../settings/settings';
 import { PopNoteSettingTab } from '../settings/PopNotesSettingTab';
 import { PopNotePickerModal } from '../ui/PopNotesPicker';
+import { ProfileSuggestModal } from '../ui/ProfileSuggestModal';
+import { FileNoteModal } from '../ui/FileNoteModal';
+import { SendToNoteModal } from '../ui/SendToNoteModal';
+import { ExportModal } from '../ui/ExportModal';
 import { Logger } from '../utils/logger';
 import { HotkeyManager } from './HotkeyManager';
 import { FileTracker } from './FileTracker';
 import { WindowManager } from './WindowManager';
-
-// Access Electron APIs
-const { remote } = require('electron');
-const { app: electronApp, BrowserWindow } = remote;
+import { ProfileManager } from './ProfileManager';
+import { TemplateEngine } from './TemplateEngine';
+import { AutoTitleManager } from './AutoTitleManager';
+import { TemplateIntegration, TemplateProcessor } from './TemplateIntegration';
+import { ClipboardManager } from './ClipboardManager';
+import { CaptureManager } from './CaptureManager';
+import { FrontmatterManager } from './FrontmatterManager';
+import { ArchiveManager } from './ArchiveManager';
+import { ExportManager } from './ExportManager';
+import { DigestManager, DigestPeriod } from './DigestManager';
+import { ReviewManager } from './ReviewManager';
+import { appendBlock, stripFrontmatter } from '../utils/markdown';
+import { getOrCreateDailyNote } from '../utils/dailyNotes';
+import { sanitizeFileName } from '../utils/fileName';
+import { getRemote, hasNativeWindows } from '../utils/platform';
 
 export default class PopNotePlugin extends Plugin {
 	settings: PopNoteSettings;
@@ -18,6 +33,17 @@ export default class PopNotePlugin extends Plugin {
 	private hotkeyManager: HotkeyManager;
 	private fileTracker: FileTracker;
 	private windowManager: WindowManager;
+	private profileManager: ProfileManager;
+	private templateEngine: TemplateEngine;
+	private autoTitleManager: AutoTitleManager;
+	private templateIntegration: TemplateIntegration;
+	private clipboardManager: ClipboardManager;
+	private captureManager: CaptureManager;
+	private frontmatterManager: FrontmatterManager;
+	private archiveManager: ArchiveManager;
+	private exportManager: ExportManager;
+	private digestManager: DigestManager;
+	private reviewManager: ReviewManager;
 	private lastNavigationTimestamp: number = 0;
 	private shouldCreateNewNote: boolean = false;
 
@@ -25,6 +51,18 @@ export default class PopNotePlugin extends Plugin {
 		return this.windowManager;
 	}
 
+	getProfileManager(): ProfileManager {
+		return this.profileManager;
+	}
+
+	getArchiveManager(): ArchiveManager {
+		return this.archiveManager;
+	}
+
+	getFrontmatterManager(): FrontmatterManager {
+		return this.frontmatterManager;
+	}
+
 	async onload() {
 		await this.loadSettings();
 		
@@ -37,6 +75,17 @@ export default class PopNotePlugin extends Plugin {
 		this.hotkeyManager = new HotkeyManager(this.logger);
 		this.fileTracker = new FileTracker(this.settings, this.logger);
 		this.windowManager = new WindowManager(this.app, this, this.logger, this.fileTracker);
+		this.profileManager = new ProfileManager(this);
+		this.templateEngine = new TemplateEngine();
+		this.autoTitleManager = new AutoTitleManager(this.app, this, this.logger);
+		this.templateIntegration = new TemplateIntegration(this.app, this.logger);
+		this.clipboardManager = new ClipboardManager(this.app, this.logger);
+		this.captureManager = new CaptureManager(this.app, this, this.logger);
+		this.frontmatterManager = new FrontmatterManager(this.app, this, this.logger);
+		this.archiveManager = new ArchiveManager(this.app, this, this.logger);
+		this.exportManager = new ExportManager(this.app, this, this.logger);
+		this.digestManager = new DigestManager(this.app, this, this.logger);
+		this.reviewManager = new ReviewManager(this.app, this, this.logger);
 
 		// Register global hotkeys
 		this.registerGlobalHotkeys();
@@ -50,18 +99,34 @@ export default class PopNotePlugin extends Plugin {
 		// Set up event handlers
 		this.setupEventHandlers();
 
-		// Register main window close handler
-		this.registerMainWindowCloseHandler();
+		if (hasNativeWindows()) {
+			// Register main window close handler
+			this.registerMainWindowCloseHandler();
+
+			// Register quit handlers
+			this.registerAppQuitHandlers();
+		} else {
+			this.logger.log('Electron remote is not available, pop notes open in an Obsidian popout or modal');
+		}
 
-		// Reconnect existing PopNote windows
-		this.reconnectExistingPopNoteWindows();
+		// Reattach or reopen the PopNote window and the sticky windows from the last session
+		this.app.workspace.onLayoutReady(async () => {
+			await this.windowManager.restorePopNoteWindow();
+			await this.windowManager.restoreStickyWindows();
+		});
 
-		// Register quit handlers
-		this.registerAppQuitHandlers();
+		// Archive old notes and update automatic digests once the vault is loaded, then every hour
+		this.app.workspace.onLayoutReady(() => this.runScheduledJobs());
+		this.registerInterval(window.setInterval(() => this.runScheduledJobs(), 60 * 60 * 1000));
 
 		this.logger.log('PopNote plugin loaded successfully');
 	}
 
+	private async runScheduledJobs() {
+		await this.archiveManager.archiveOldNotes();
+		await this.digestManager.runAutoDigest();
+	}
+
 	onunload() {
 		this.logger.log('PopNote plugin unloading...');
 		
@@ -88,6 +153,9 @@ export default class PopNotePlugin extends Plugin {
 		if (!this.settings.cursorPositions) {
 			this.settings.cursorPositions = {};
 		}
+		if (!this.settings.lastCreatedNotes) {
+			this.settings.lastCreatedNotes = {};
+		}
 		
 		await this.saveSettings();
 	}
@@ -102,6 +170,27 @@ export default class PopNotePlugin extends Plugin {
 			// @ts-ignore
 			delete this.settings.alwaysOnTop;
 		}
+
+		// Fill in buffer settings added after the profile was created
+		for (const profile of this.settings.profiles || []) {
+			if (!profile.bufferPolicy) {
+				profile.bufferPolicy = 'created';
+			}
+			if (profile.bufferRolloverHour === undefined) {
+				profile.bufferRolloverHour = 0;
+			}
+		}
+
+		// Migrate the single lastCreatedNote to the per-profile map
+		if ('lastCreatedNote' in this.settings) {
+			// @ts-ignore - accessing legacy property
+			const legacyLastCreatedNote = this.settings.lastCreatedNote;
+			if (legacyLastCreatedNote) {
+				this.settings.lastCreatedNotes = { [DEFAULT_PROFILE_ID]: legacyLastCreatedNote };
+			}
+			// @ts-ignore
+			delete this.settings.lastCreatedNote;
+		}
 	}
 
 	async saveSettings() {
@@ -121,14 +210,68 @@ export default class PopNotePlugin extends Plugin {
 			return;
 		}
 
-		if (this.settings.createNoteHotkey && this.isValidHotkey(this.settings.createNoteHotkey)) {
-			this.hotkeyManager.registerGlobalHotkey(
-				this.settings.createNoteHotkey,
-				() => this.createOrOpenPopNote()
-			);
+		for (const action of this.getGlobalHotkeyActions()) {
+			if (action.hotkey && this.isValidHotkey(action.hotkey)) {
+				this.hotkeyManager.registerGlobalHotkey(action.id, action.hotkey, () => {
+					// Failures are shown as notices, so only log them here
+					Promise.resolve(action.callback()).catch(error => {
+						this.logger.error(`Global hotkey action ${action.id} failed:`, error);
+					});
+				});
+			}
 		}
 	}
 
+	private getGlobalHotkeyActions(): { id: string; hotkey: string; callback: () => void | Promise<void> }[] {
+		return [
+			{
+				id: 'create-or-open',
+				hotkey: this.settings.createNoteHotkey,
+				callback: () => this.createOrOpenPopNote()
+			},
+			{
+				id: 'toggle-window',
+				hotkey: this.settings.toggleWindowHotkey,
+				callback: () => this.togglePopNoteWindow()
+			},
+			{
+				id: 'new-note',
+				hotkey: this.settings.newNoteHotkey,
+				callback: () => this.createAndShowNewPopNote()
+			},
+			{
+				id: 'clipboard-note',
+				hotkey: this.settings.clipboardNoteHotkey,
+				callback: () => this.captureClipboardToNewPopNote()
+			},
+			{
+				id: 'append-clipboard',
+				hotkey: this.settings.appendClipboardHotkey,
+				callback: () => this.appendClipboardToCurrentPopNote()
+			},
+			{
+				id: 'open-picker',
+				hotkey: this.settings.openPickerHotkey,
+				callback: () => this.openPopNotePicker()
+			},
+			{
+				id: 'previous-note',
+				hotkey: this.settings.previousNoteHotkey,
+				callback: () => this.navigateToPreviousPopNote()
+			},
+			{
+				id: 'next-note',
+				hotkey: this.settings.nextNoteHotkey,
+				callback: () => this.navigateToNextPopNote()
+			},
+			...this.settings.profiles.map(profile => ({
+				id: `profile-${profile.id}`,
+				hotkey: profile.hotkey,
+				callback: () => this.createOrOpenPopNote(profile.id)
+			}))
+		];
+	}
+
 	isValidHotkey(hotkey: string): boolean {
 		return this.hotkeyManager.isValidHotkey(hotkey);
 	}
@@ -138,13 +281,17 @@ export default class PopNotePlugin extends Plugin {
 		this.addCommand({
 			id: 'navigate-to-previous-popnote',
 			name: 'Navigate to previous PopNote',
-			callback: () => this.navigateToPreviousPopNote()
+			callback: () => this.navigateToPreviousPopNote().catch(error => {
+				this.logger.error('Command navigate-to-previous-popnote failed:', error);
+			})
 		});
 
 		this.addCommand({
 			id: 'navigate-to-next-popnote',
 			name: 'Navigate to next PopNote',
-			callback: () => this.navigateToNextPopNote()
+			callback: () => this.navigateToNextPopNote().catch(error => {
+				this.logger.error('Command navigate-to-next-popnote failed:', error);
+			})
 		});
 
 		// Picker command
@@ -155,6 +302,155 @@ export default class PopNotePlugin extends Plugin {
 				new PopNotePickerModal(this.app, this).open();
 			}
 		});
+
+		this.addCommand({
+			id: 'toggle-popnote-window',
+			name: 'Toggle PopNote window',
+			callback: () => this.togglePopNoteWindow().catch(error => {
+				this.logger.error('Command toggle-popnote-window failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'create-new-popnote',
+			name: 'Create new PopNote',
+			callback: () => this.createAndShowNewPopNote().catch(error => {
+				this.logger.error('Command create-new-popnote failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'create-popnote-from-clipboard',
+			name: 'Create PopNote from clipboard',
+			callback: () => this.captureClipboardToNewPopNote().catch(error => {
+				this.logger.error('Command create-popnote-from-clipboard failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'append-clipboard-to-popnote',
+			name: 'Append clipboard to current PopNote',
+			callback: () => this.appendClipboardToCurrentPopNote().catch(error => {
+				this.logger.error('Command append-clipboard-to-popnote failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'create-or-open-popnote-from-profile',
+			name: 'Create/open PopNote from profile',
+			callback: () => {
+				new ProfileSuggestModal(this.app, this.profileManager.getProfiles(), (profile) => {
+					this.createOrOpenPopNote(profile.id).catch(error => {
+						this.logger.error('Command create-or-open-popnote-from-profile failed:', error);
+					});
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'file-popnote',
+			name: 'File current PopNote into the vault',
+			callback: () => this.fileCurrentPopNote()
+		});
+
+		this.addCommand({
+			id: 'send-popnote-to-note',
+			name: 'Send current PopNote to another note',
+			callback: () => this.sendCurrentPopNote()
+		});
+
+		this.addCommand({
+			id: 'create-daily-popnotes-digest',
+			name: 'Create PopNotes digest for today',
+			callback: () => this.openDigest('day')
+		});
+
+		this.addCommand({
+			id: 'create-weekly-popnotes-digest',
+			name: 'Create PopNotes digest for this week',
+			callback: () => this.openDigest('week')
+		});
+
+		this.addCommand({
+			id: 'open-note-as-sticky-note',
+			name: 'Open current note as sticky note',
+			callback: () => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) {
+					new Notice('No note is currently open');
+					return;
+				}
+				this.windowManager.openStickyWindow(file).catch(error => {
+					this.logger.error('Command open-note-as-sticky-note failed:', error);
+				});
+			}
+		});
+
+		this.addCommand({
+			id: 'open-pinned-popnotes-as-sticky-notes',
+			name: 'Open pinned PopNotes as sticky notes',
+			callback: () => this.openPinnedNotesAsSticky().catch(error => {
+				this.logger.error('Command open-pinned-popnotes-as-sticky-notes failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'close-all-sticky-notes',
+			name: 'Close all sticky notes',
+			callback: () => this.windowManager.closeAllStickyWindows()
+		});
+
+		this.addCommand({
+			id: 'start-popnote-review',
+			name: 'Start reviewing unprocessed PopNotes',
+			callback: () => this.reviewManager.startReview().catch(error => {
+				this.logger.error('Command start-popnote-review failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'review-mark-popnote-processed',
+			name: 'Review: Mark current PopNote as processed',
+			callback: () => this.reviewManager.markProcessed().catch(error => {
+				this.logger.error('Command review-mark-popnote-processed failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'review-archive-popnote',
+			name: 'Review: Archive current PopNote',
+			callback: () => this.reviewManager.archive().catch(error => {
+				this.logger.error('Command review-archive-popnote failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'review-promote-popnote',
+			name: 'Review: Promote current PopNote into the vault',
+			callback: () => this.reviewManager.promote().catch(error => {
+				this.logger.error('Command review-promote-popnote failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'review-skip-popnote',
+			name: 'Review: Skip current PopNote',
+			callback: () => this.reviewManager.skip().catch(error => {
+				this.logger.error('Command review-skip-popnote failed:', error);
+			})
+		});
+
+		this.addCommand({
+			id: 'export-popnotes',
+			name: 'Export PopNotes',
+			callback: () => {
+				new ExportModal(this.app, this.profileManager.getProfiles(), this.settings.lastExportOptions, async (options) => {
+					this.settings.lastExportOptions = options;
+					await this.saveSettings();
+					await this.exportManager.exportNotes(options);
+				}).open();
+			}
+		});
 	}
 
 	private setupEventHandlers() {
@@ -169,6 +465,27 @@ export default class PopNotePlugin extends Plugin {
 						this.fileTracker.clearCursorPosition(oldPath);
 						this.fileTracker.saveCursorPosition(file.path, cursorPos);
 					}
+					// Update pinned notes
+					const pinnedIndex = this.settings.pinnedNotes.indexOf(oldPath);
+					if (pinnedIndex > -1) {
+						this.settings.pinnedNotes[pinnedIndex] = file.path;
+					}
+					// Update last created notes
+					Object.values(this.settings.lastCreatedNotes).forEach(lastCreatedNote => {
+						if (lastCreatedNote.path === oldPath) {
+							lastCreatedNote.path = file.path;
+						}
+					});
+					// Update sticky notes
+					this.settings.stickyNotes.forEach(stickyNote => {
+						if (stickyNote.path === oldPath) {
+							stickyNote.path = file.path;
+						}
+					});
+					// Update the note restored in the PopNote window
+					if (this.settings.popWindowState?.path === oldPath) {
+						this.settings.popWindowState.path = file.path;
+					}
 					this.saveSettings();
 				}
 			})
@@ -178,15 +495,23 @@ export default class PopNotePlugin extends Plugin {
 		this.registerEvent(
 			this.app.vault.on('delete', (file) => {
 				if (file instanceof TFile) {
-					this.fileTracker.clearCursorPosition(file.path);
+					this.windowManager.closeStickyWindow(file);
+					this.forgetNote(file.path);
 					this.saveSettings();
 				}
 			})
 		);
 	}
 
-	async createOrOpenPopNote() {
-		this.logger.log('createOrOpenPopNote called');
+	async createOrOpenPopNote(profileId: string = DEFAULT_PROFILE_ID) {
+		this.logger.log('createOrOpenPopNote called for profile:', profileId);
+		const profile = this.profileManager.getProfile(profileId);
+
+		// In append mode the default hotkey opens the quick capture note instead
+		if (this.settings.captureMode === 'append' && profile.id === DEFAULT_PROFILE_ID) {
+			await this.toggleQuickCapture();
+			return;
+		}
 		
 		// Check if we're still trying to reconnect
 		const popNoteWindow = this.windowManager.getPopNoteWindow();
@@ -199,24 +524,33 @@ export default class PopNotePlugin extends Plugin {
 		const currentWindow = this.windowManager.getPopNoteWindow();
 		if (currentWindow && !currentWindow.isDestroyed()) {
 			this.logger.log(`PopNote window exists, ID: ${currentWindow.id}`);
+			// Check whether the window currently shows a note from another profile
+			const currentFile = this.windowManager.getCurrentFile();
+			const currentProfileId = currentFile ? this.profileManager.getProfileForFile(currentFile)?.id : undefined;
+			const showsOtherProfile = !!currentProfileId && currentProfileId !== profile.id;
+			// The note may have been discarded, deleted or filed into the vault while the window was hidden
+			const currentFileMissing = !currentFile || !currentProfileId || !(this.app.vault.getAbstractFileByPath(currentFile.path) instanceof TFile);
+
 			// Window exists
-			if (currentWindow.isVisible()) {
+			if (currentWindow.isVisible() && !showsOtherProfile) {
 				// Window is visible, hide it
-				this.logger.log(`Hiding PopNote window with ID: ${currentWindow.id}`);
-				// Save cursor position before hiding
-				this.windowManager.saveCursorPositionFromLeaf();
-				await this.saveSettings();
-				currentWindow.hide();
+				await this.hideCurrentPopNoteWindow();
 				return;
 			} else {
-				// Window is hidden, show it
-				const shouldReuseNote = this.shouldReuseLastNote();
+				// Window is hidden or shows another profile, show this profile's note
+				const shouldReuseNote = await this.shouldReuseLastNote(profile);
 				this.logger.log('Window hidden, should reuse note:', shouldReuseNote);
 				
 				if (!shouldReuseNote) {
 					// Buffer time expired or set to 'none', create new note
-					const noteFile = await this.createNewPopNote();
+					const noteFile = await this.createNewPopNote(profile);
 					// Open the new note in the existing window
+					this.windowManager.saveCursorPositionFromLeaf();
+					await this.windowManager.openFileInExistingWindow(noteFile);
+				} else if (showsOtherProfile || currentFileMissing) {
+					// Switch to this profile's last note
+					const noteFile = await this.getLastCreatedNote(profile) || await this.createNewPopNote(profile);
+					this.windowManager.saveCursorPositionFromLeaf();
 					await this.windowManager.openFileInExistingWindow(noteFile);
 				}
 				
@@ -228,53 +562,262 @@ export default class PopNotePlugin extends Plugin {
 
 		// No window exists, create one
 		// Check buffer time logic
-		const shouldReuseNote = this.shouldReuseLastNote();
+		const shouldReuseNote = await this.shouldReuseLastNote(profile);
 		this.logger.log('Should reuse note:', shouldReuseNote);
 
 		let noteFile: TFile;
 		if (shouldReuseNote) {
-			const lastNote = await this.getLastCreatedNote();
+			const lastNote = await this.getLastCreatedNote(profile);
 			if (lastNote) {
 				noteFile = lastNote;
 			} else {
-				noteFile = await this.createNewPopNote();
+				noteFile = await this.createNewPopNote(profile);
 			}
 		} else {
-			noteFile = await this.createNewPopNote();
+			noteFile = await this.createNewPopNote(profile);
 		}
 
 		// Create new window with the note
 		await this.windowManager.showPopNoteWindow(noteFile);
 	}
 
-	private shouldReuseLastNote(): boolean {
+	private async toggleQuickCapture() {
+		const currentWindow = this.windowManager.getPopNoteWindow();
+		const currentFile = this.windowManager.getCurrentFile();
+		if (currentWindow && !currentWindow.isDestroyed() && currentWindow.isVisible()
+			&& currentFile && this.captureManager.isCaptureFile(currentFile)) {
+			// Hiding the window appends the capture to the target
+			await this.hideCurrentPopNoteWindow();
+			return;
+		}
+
+		const captureFile = await this.captureManager.getOrCreateCaptureFile();
+		await this.openInPopNoteWindow(captureFile);
+	}
+
+	async togglePopNoteWindow() {
+		const currentWindow = this.windowManager.getPopNoteWindow();
+		if (!currentWindow || currentWindow.isDestroyed()) {
+			// Nothing to toggle yet, fall back to the regular create/open behavior
+			await this.createOrOpenPopNote();
+			return;
+		}
+
+		const currentFile = this.windowManager.getCurrentFile();
+		if (currentWindow.isVisible()) {
+			await this.hideCurrentPopNoteWindow();
+		} else if (!currentFile || !(this.app.vault.getAbstractFileByPath(currentFile.path) instanceof TFile)) {
+			// The note was discarded or deleted while the window was hidden
+			await this.createOrOpenPopNote();
+		} else {
+			this.windowManager.showExistingWindow();
+		}
+	}
+
+	async createAndShowNewPopNote() {
+		const noteFile = await this.createNewPopNote();
+		await this.openInPopNoteWindow(noteFile);
+	}
+
+	openPopNotePicker() {
+		// Bring the main window forward so the picker is visible when triggered from another app
+		const mainWindow = getRemote()?.getCurrentWindow();
+		if (mainWindow && !mainWindow.isDestroyed()) {
+			mainWindow.show();
+			mainWindow.focus();
+		}
+		new PopNotePickerModal(this.app, this).open();
+	}
+
+	private async hideCurrentPopNoteWindow() {
+		const currentWindow = this.windowManager.getPopNoteWindow();
+		if (!currentWindow || currentWindow.isDestroyed()) {
+			return;
+		}
+
+		this.logger.log(`Hiding PopNote window with ID: ${currentWindow.id}`);
+		// Save cursor position before hiding
+		this.windowManager.saveCursorPositionFromLeaf();
+		await this.saveSettings();
+		// Also records the window as hidden, so a restart doesn't show it again
+		this.windowManager.hidePopNoteWindow();
+
+		const currentFile = this.windowManager.getCurrentFile();
+		if (currentFile) {
+			await this.handlePopNoteLeave(currentFile);
+		}
+	}
+
+	/**
+	 * Called when a note stops being shown in the PopNote window,
+	 * either because the window was hidden or another note was opened.
+	 */
+	async handlePopNoteLeave(file: TFile) {
+		try {
+			if (this.captureManager.isCaptureFile(file)) {
+				await this.captureManager.flushCapture(file);
+				return;
+			}
+
+			// Archived notes are out of the pop note flow
+			if (this.archiveManager.isArchived(file)) {
+				return;
+			}
+
+			if (await this.discardIfUnchanged(file)) {
+				return;
+			}
+			// Remember when the last created note was left, for the time since hidden buffer policy
+			const profile = this.profileManager.getProfileForFile(file);
+			const lastCreatedNote = profile ? this.profileManager.getLastCreatedNote(profile.id) : null;
+			if (lastCreatedNote && lastCreatedNote.path === file.path) {
+				lastCreatedNote.hiddenAt = Date.now();
+				await this.saveSettings();
+			}
+
+			await this.autoTitleManager.applyAutoTitle(file);
+		} catch (error) {
+			this.logger.error('Error handling PopNote leave:', error);
+		}
+	}
+
+	/**
+	 * Delete a pop note that is empty or identical to its rendered template,
+	 * e.g. after the hotkey was pressed by accident. Returns whether it was deleted.
+	 */
+	private async discardIfUnchanged(file: TFile): Promise<boolean> {
+		if (!this.settings.discardEmptyNotes) {
+			return false;
+		}
+
+		// Only discard pop notes, never regular notes opened in the window
+		if (!this.profileManager.getProfileForFile(file) || this.settings.pinnedNotes.includes(file.path)) {
+			return false;
+		}
+
+		// The file may have been deleted while the window was open
+		if (!(this.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) {
+			return false;
+		}
 
-		if (this.settings.bufferTime === 'none') {
+		if (!await this.isNoteUnchanged(file)) {
 			return false;
 		}
 
-		if (this.settings.bufferTime === 'permanent') {
+		const path = file.path;
+		// Use the user's trash setting, so a wrongly discarded note can be recovered
+		await this.app.fileManager.trashFile(file);
+		this.forgetNote(path);
+		await this.saveSettings();
+		this.logger.log('Discarded empty PopNote:', path);
+		return true;
+	}
+
+	/**
+	 * Remove all state kept for a note that no longer exists.
+	 */
+	private forgetNote(filePath: string) {
+		this.fileTracker.clearCursorPosition(filePath);
+		// Needs the tracked file ID, so clear before untracking
+		this.fileTracker.clearInitialContent(filePath);
+		this.fileTracker.untrackFile(filePath);
+
+		for (const [profileId, lastCreatedNote] of Object.entries(this.settings.lastCreatedNotes || {})) {
+			if (lastCreatedNote.path === filePath) {
+				delete this.settings.lastCreatedNotes[profileId];
+			}
+		}
+		this.settings.stickyNotes = this.settings.stickyNotes.filter(stickyNote => stickyNote.path !== filePath);
+	}
+
+	private async openPinnedNotesAsSticky() {
+		const pinnedFiles = this.settings.pinnedNotes
+			.map(path => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile);
+		if (pinnedFiles.length === 0) {
+			new Notice('PopNote: No pinned notes to open');
+			return;
+		}
+		for (const file of pinnedFiles) {
+			await this.windowManager.openStickyWindow(file);
+		}
+	}
+
+	private async openInPopNoteWindow(file: TFile) {
+		const currentWindow = this.windowManager.getPopNoteWindow();
+		if (currentWindow && !currentWindow.isDestroyed() && !currentWindow.isVisible()) {
+			// Reuse the hidden window so size, position and level are re-applied on show
+			await this.windowManager.openFileInExistingWindow(file);
+			this.windowManager.showExistingWindow();
+		} else {
+			await this.windowManager.showPopNoteWindow(file);
+		}
+	}
+
+	private async shouldReuseLastNote(profile: PopNoteProfile): Promise<boolean> {
+
+		if (profile.bufferTime === 'none') {
+			return false;
+		}
+
+		if (profile.bufferTime === 'permanent') {
 			return true;
 		}
 
-		// Check if we have a last created note within the buffer time
-		if (this.settings.lastCreatedNote) {
-			const bufferMs = this.settings.bufferTime * 60 * 1000; // Convert minutes to ms
-			const timeSinceCreation = Date.now() - this.settings.lastCreatedNote.timestamp;
-			return timeSinceCreation <= bufferMs;
+		const lastCreatedNote = this.profileManager.getLastCreatedNote(profile.id);
+		if (!lastCreatedNote) {
+			return false;
+		}
+
+		if (profile.bufferTime === 'if-unchanged') {
+			const lastNote = await this.getLastCreatedNote(profile);
+			return !!lastNote && await this.isNoteUnchanged(lastNote);
+		}
+
+		if (profile.bufferTime === 'day' || profile.bufferTime === 'week') {
+			// Shift both times by the rollover hour, so e.g. 2am still counts as the previous day
+			const rolloverHours = profile.bufferRolloverHour || 0;
+			const created = moment(lastCreatedNote.timestamp).subtract(rolloverHours, 'hours');
+			const now = moment().subtract(rolloverHours, 'hours');
+			return created.isSame(now, profile.bufferTime === 'day' ? 'day' : 'isoWeek');
 		}
 
-		return false;
+		// Check if the last created note is within the buffer time
+		let referenceTime: number;
+		if (profile.bufferPolicy === 'edited') {
+			const lastNote = await this.getLastCreatedNote(profile);
+			if (!lastNote) {
+				return false;
+			}
+			referenceTime = lastNote.stat.mtime;
+		} else if (profile.bufferPolicy === 'hidden') {
+			referenceTime = lastCreatedNote.hiddenAt || lastCreatedNote.timestamp;
+		} else {
+			referenceTime = lastCreatedNote.timestamp;
+		}
+
+		const bufferMs = profile.bufferTime * 60 * 1000; // Convert minutes to ms
+		return Date.now() - referenceTime <= bufferMs;
 	}
 
-	private async getLastCreatedNote(): Promise<TFile | null> {
-		if (!this.settings.lastCreatedNote) {
+	/**
+	 * Whether a note is empty or still has the content it was created with.
+	 */
+	async isNoteUnchanged(file: TFile): Promise<boolean> {
+		await this.windowManager.saveEditors(file);
+		const content = await this.app.vault.read(file);
+		return !content.trim() || this.fileTracker.isInitialContent(file, content);
+	}
+
+	private async getLastCreatedNote(profile: PopNoteProfile): Promise<TFile | null> {
+		const lastCreatedNote = this.profileManager.getLastCreatedNote(profile.id);
+		if (!lastCreatedNote) {
 			return null;
 		}
 
 		// First try to find by file ID (ctime)
-		if (this.settings.lastCreatedNote.fileId) {
-			const trackedPath = this.fileTracker.getTrackedPath(this.settings.lastCreatedNote.fileId);
+		if (lastCreatedNote.fileId) {
+			const trackedPath = this.fileTracker.getTrackedPath(lastCreatedNote.fileId);
 			if (trackedPath) {
 				const file = this.app.vault.getAbstractFileByPath(trackedPath);
 				if (file instanceof TFile) {
@@ -285,7 +828,7 @@ export default class PopNotePlugin extends Plugin {
 		}
 
 		// Fallback to path
-		const file = this.app.vault.getAbstractFileByPath(this.settings.lastCreatedNote.path);
+		const file = this.app.vault.getAbstractFileByPath(lastCreatedNote.path);
 		if (file instanceof TFile) {
 			return file;
 		}
@@ -293,128 +836,500 @@ export default class PopNotePlugin extends Plugin {
 		return null;
 	}
 
-	private async createNewPopNote(): Promise<TFile> {
-		// Ensure the PopNotes folder exists
-		const folderPath = this.settings.popNotesFolder || 'PopNotes';
-		await this.ensureFolderExists(folderPath);
-
-		// Generate note name
-		const noteName = this.generateNoteName();
+	private async createNewPopNote(profile: PopNoteProfile = this.profileManager.getProfile(), options: CreateNoteOptions = {}): Promise<TFile> {
+		// Generate folder and note name, both may contain date variables
+		const now = moment();
+		const folderPath = this.generateFolderPath(profile, now);
+		const noteName = this.generateNoteName(profile, now);
 		const notePath = normalizePath(`${folderPath}/${noteName}.md`);
 
-		// Create note content
-		let content = '';
-		if (this.settings.templateFile) {
-			const templateFile = this.app.vault.getAbstractFileByPath(this.settings.templateFile);
-			if (templateFile instanceof TFile) {
-				const templateContent = await this.app.vault.read(templateFile);
-				content = this.processTemplate(templateContent);
+		// Handle an existing note with the same name
+		const existingFile = this.app.vault.getAbstractFileByPath(notePath);
+		// Given content must end up in the note, so never reuse an existing one for it
+		if (existingFile instanceof TFile && this.settings.collisionStrategy === 'open-existing' && options.content === undefined) {
+			this.logger.log('Note already exists, opening it instead:', existingFile.path);
+			if (options.includeClipboard) {
+				// Keep the clipboard in the reused note instead of dropping it
+				const clipboardText = await this.clipboardManager.getClipboardMarkdown(existingFile.path);
+				if (clipboardText) {
+					await this.app.vault.process(existingFile, data => appendBlock(data, clipboardText));
+				}
+			}
+			this.fileTracker.trackFile(existingFile);
+			return existingFile;
+		}
+		const availablePath = existingFile ? this.getAvailableNotePath(folderPath, noteName, now) : notePath;
+
+		try {
+			// Ensure the note's folder exists, the name pattern may add subfolders
+			await this.ensureFolderExists(availablePath.substring(0, availablePath.lastIndexOf('/')));
+
+			// Create note content
+			let content = '';
+			let templaterTemplate: TFile | null = null;
+			let templateUsesClipboard = false;
+			if (options.content !== undefined) {
+				content = options.content;
+			} else if (profile.templateFile) {
+				const templateFile = this.app.vault.getAbstractFileByPath(profile.templateFile);
+				if (templateFile instanceof TFile) {
+					const processor = this.templateIntegration.resolveProcessor(this.settings.templateEngine);
+					if (processor === 'templater') {
+						// Templater writes into the created file itself
+						templaterTemplate = templateFile;
+					} else {
+						const templateContent = await this.app.vault.read(templateFile);
+						templateUsesClipboard = templateContent.includes('{{clipboard');
+						const clipboardText = templateUsesClipboard
+							? await this.clipboardManager.getClipboardMarkdown(availablePath)
+							: '';
+						content = this.processTemplate(templateContent, profile, now, processor, { clipboard: clipboardText });
+					}
+				}
+			}
+
+			// Create the file
+			const file = await this.app.vault.create(availablePath, content);
+			if (templaterTemplate) {
+				await this.templateIntegration.applyTemplater(templaterTemplate, file);
+			}
+
+			// Add the clipboard contents below the template if it has no {{clipboard}} variable
+			if (options.includeClipboard && !templateUsesClipboard) {
+				const clipboardText = await this.clipboardManager.getClipboardMarkdown(file.path);
+				await this.app.vault.process(file, data => appendBlock(data, clipboardText));
 			}
+
+			await this.frontmatterManager.stampNewNote(file, profile, options.source || 'window', now);
+			if (options.content === undefined) {
+				// Given content is never considered an untouched template
+				this.fileTracker.setInitialContent(file, await this.app.vault.read(file));
+			}
+			
+			// Track this file
+			this.fileTracker.trackFile(file);
+			
+			// Update last created note
+			this.profileManager.setLastCreatedNote(profile.id, {
+				path: file.path,
+				timestamp: Date.now(),
+				fileId: this.fileTracker.getFileId(file) || undefined
+			});
+			await this.saveSettings();
+
+			this.logger.log(`Created new PopNote for profile ${profile.name}:`, file.path);
+			return file;
+		} catch (error) {
+			this.logger.error('Failed to create PopNote:', availablePath, error);
+			new Notice(`PopNote: Could not create note "${availablePath}": ${error.message}`);
+			throw error;
 		}
+	}
 
-		// Create the file
-		const file = await this.app.vault.create(notePath, content);
-		
-		// Track this file
-		this.fileTracker.trackFile(file);
-		
-		// Update last created note
-		this.settings.lastCreatedNote = {
-			path: file.path,
-			timestamp: Date.now(),
-			fileId: this.fileTracker.getFileId(file) || undefined
-		};
-		await this.saveSettings();
+	private getAvailableNotePath(folderPath: string, noteName: string, now: ReturnType<typeof moment>): string {
+		const exists = (name: string) => !!this.app.vault.getAbstractFileByPath(normalizePath(`${folderPath}/${name}.md`));
 
-		this.logger.log('Created new PopNote:', file.path);
-		return file;
+		// Try the time-based suffix first, then fall back to a counter
+		let baseName = noteName;
+		if (this.settings.collisionStrategy === 'seconds') {
+			baseName = `${noteName} ${now.format('ss')}`;
+		} else if (this.settings.collisionStrategy === 'milliseconds') {
+			baseName = `${noteName} ${now.format('ss-SSS')}`;
+		}
+
+		let candidate = baseName;
+		let counter = 1;
+		while (exists(candidate)) {
+			candidate = `${baseName} ${counter}`;
+			counter++;
+		}
+
+		this.logger.log(`Note name collision, using "${candidate}" instead of "${noteName}"`);
+		return normalizePath(`${folderPath}/${candidate}.md`);
 	}
 
 	private async ensureFolderExists(folderPath: string) {
-		const folder = this.app.vault.getAbstractFileByPath(folderPath);
-		if (!folder) {
-			await this.app.vault.createFolder(folderPath);
-		}
-	}
-
-	private generateNoteName(): string {
-		const now = new Date();
-		const vars = {
-			date: now.toISOString().split('T')[0],
-			time: now.toTimeString().split(' ')[0].replace(/:/g, '-'),
-			timestamp: now.getTime().toString(),
-			year: now.getFullYear().toString(),
-			month: (now.getMonth() + 1).toString().padStart(2, '0'),
-			day: now.getDate().toString().padStart(2, '0'),
-			hour: now.getHours().toString().padStart(2, '0'),
-			minute: now.getMinutes().toString().padStart(2, '0'),
-			second: now.getSeconds().toString().padStart(2, '0')
-		};
+		// Create each missing level of nested folders like PopNotes/2024/01
+		let currentPath = '';
+		for (const segment of normalizePath(folderPath).split('/')) {
+			if (!segment) {
+				continue;
+			}
+			currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+			if (!this.app.vault.getAbstractFileByPath(currentPath)) {
+				await this.app.vault.createFolder(currentPath);
+			}
+		}
+	}
 
-		let name = this.settings.noteNamePattern || 'PopNote {{date}} {{time}}';
-		Object.entries(vars).forEach(([key, value]) => {
-			name = name.replace(new RegExp(`{{${key}}}`, 'g'), value);
+	private generateFolderPath(profile: PopNoteProfile, now: ReturnType<typeof moment>): string {
+		const folder = this.templateEngine.render(this.profileManager.getFolderPattern(profile), {
+			now,
+			formats: { time: 'HH-mm-ss' }
 		});
 
-		return name;
-	}
-
-	private processTemplate(template: string): string {
-		const now = new Date();
-		const vars = {
-			title: this.generateNoteName(),
-			date: now.toISOString().split('T')[0],
-			time: now.toTimeString().split(' ')[0],
-			timestamp: now.getTime().toString(),
-			year: now.getFullYear().toString(),
-			month: (now.getMonth() + 1).toString().padStart(2, '0'),
-			day: now.getDate().toString().padStart(2, '0'),
-			hour: now.getHours().toString().padStart(2, '0'),
-			minute: now.getMinutes().toString().padStart(2, '0'),
-			second: now.getSeconds().toString().padStart(2, '0')
-		};
+		return normalizePath(folder.replace(/[\\:*?"<>|]/g, '-'));
+	}
 
-		let processed = template;
-		Object.entries(vars).forEach(([key, value]) => {
-			processed = processed.replace(new RegExp(`{{${key}}}`, 'g'), value);
+	private generateNoteName(profile: PopNoteProfile, now: ReturnType<typeof moment>): string {
+		const pattern = profile.noteNamePattern || 'PopNote {{date}} {{time}}';
+		const name = this.templateEngine.render(pattern, {
+			now,
+			// Colons are not allowed in file names
+			formats: { time: 'HH-mm-ss' }
 		});
 
-		return processed;
+		// Replace characters that are invalid in file names. Slashes are kept
+		// so patterns can put notes into subfolders.
+		return name
+			.replace(/[\\:*?"<>|]/g, '-')
+			.split('/')
+			.map(segment => segment.trim())
+			.filter(segment => segment)
+			.join('/');
 	}
 
-	showPopNoteWindow(file: TFile) {
-		return this.windowManager.showPopNoteWindow(file);
+	private processTemplate(
+		template: string,
+		profile: PopNoteProfile,
+		now: ReturnType<typeof moment>,
+		processor: TemplateProcessor,
+		variables: { [name: string]: string } = {}
+	): string {
+		return this.templateEngine.render(template, {
+			now,
+			// The core Templates plugin uses its own default date and time formats
+			formats: processor === 'core' ? this.templateIntegration.getCoreTemplateFormats() : undefined,
+			variables: {
+				title: this.generateNoteName(profile, now).split('/').pop() || '',
+				...variables
+			}
+		});
 	}
 
-	async getPopNotesSorted(): Promise<TFile[]> {
-		const popNotesFolder = this.settings.popNotesFolder || 'PopNotes';
-		const folder = this.app.vault.getAbstractFileByPath(popNotesFolder);
-		
-		if (!(folder instanceof TFolder)) {
-			return [];
+	async captureClipboardToNewPopNote() {
+		if (!(await this.clipboardManager.hasContent())) {
+			new Notice('PopNote: Clipboard is empty');
+			return;
 		}
 
+		const noteFile = await this.createNewPopNote(this.profileManager.getProfile(), { includeClipboard: true, source: 'clipboard' });
+		await this.openInPopNoteWindow(noteFile);
+	}
+
+	async appendClipboardToCurrentPopNote() {
+		if (!(await this.clipboardManager.hasContent())) {
+			new Notice('PopNote: Clipboard is empty');
+			return;
+		}
+
+		// Append to the note in the PopNote window, or the last created note
+		const targetFile = this.windowManager.getCurrentFile() || await this.getLastCreatedNote(this.profileManager.getProfile());
+		if (!targetFile) {
+			await this.captureClipboardToNewPopNote();
+			return;
+		}
+
+		const clipboardText = await this.clipboardManager.getClipboardMarkdown(targetFile.path);
+		await this.app.vault.process(targetFile, data => appendBlock(data, clipboardText));
+		this.logger.log('Appended clipboard to PopNote:', targetFile.path);
+		await this.openInPopNoteWindow(targetFile);
+	}
+
+	showPopNoteWindow(file: TFile) {
+		return this.windowManager.showPopNoteWindow(file);
+	}
+
+	async getPopNotesSorted(options: PopNotesQuery = {}): Promise<TFile[]> {
 		const files: TFile[] = [];
+		const seenPaths = new Set<string>();
 		const collectFiles = (folder: TFolder) => {
 			for (const child of folder.children) {
 				if (child instanceof TFile && child.extension === 'md') {
-					files.push(child);
+					// The quick capture note is a scratch pad, not a pop note
+					if (!seenPaths.has(child.path) && !this.captureManager.isCaptureFile(child)) {
+						seenPaths.add(child.path);
+						files.push(child);
+					}
 				} else if (child instanceof TFolder) {
 					collectFiles(child);
 				}
 			}
 		};
 
-		collectFiles(folder);
+		const folderPaths = this.profileManager.getProfiles().map(profile => this.profileManager.getProfileFolder(profile));
+		if (options.includeArchived) {
+			// The archive folder may be outside the profile folders
+			folderPaths.push(this.archiveManager.getArchiveFolder());
+		}
+		for (const folderPath of folderPaths) {
+			const folder = this.app.vault.getAbstractFileByPath(folderPath);
+			if (folder instanceof TFolder) {
+				collectFiles(folder);
+			}
+		}
+
+		// Only keep notes that belong to the requested profile
+		const profileFiles = files.filter(file =>
+			!this.digestManager.isDigest(file) &&
+			(options.includeArchived || !this.archiveManager.isArchived(file)) &&
+			(!options.status || this.frontmatterManager.getStatus(file) === options.status) &&
+			(!options.profileId || this.profileManager.getProfileForFile(file)?.id === options.profileId)
+		);
 
 		// Sort files
-		files.sort((a, b) => {
+		profileFiles.sort((a, b) => {
 			const timeA = this.settings.sortOrder === 'created' ? a.stat.ctime : a.stat.mtime;
 			const timeB = this.settings.sortOrder === 'created' ? b.stat.ctime : b.stat.mtime;
 			return timeB - timeA; // Newest first
 		});
 
-		return files;
+		return profileFiles;
+	}
+
+	/**
+	 * The note to show after the given note leaves the pop notes: the next
+	 * note of the same profile, or the previous one if it is the last.
+	 */
+	async getAdjacentPopNote(file: TFile): Promise<TFile | null> {
+		const profile = this.profileManager.getProfileForFile(file);
+		const sortedNotes = await this.getPopNotesSorted({ profileId: profile?.id });
+		const currentIndex = sortedNotes.findIndex(f => f.path === file.path);
+
+		if (currentIndex === -1 || sortedNotes.length < 2) {
+			return null;
+		}
+		return currentIndex < sortedNotes.length - 1
+			? sortedNotes[currentIndex + 1]
+			: sortedNotes[currentIndex - 1];
+	}
+
+	fileCurrentPopNote() {
+		const currentFile = this.windowManager.getCurrentFile();
+		if (!currentFile || !this.profileManager.getProfileForFile(currentFile)) {
+			new Notice('No PopNote is currently open');
+			return;
+		}
+		this.openFileNoteModal(currentFile);
+	}
+
+	openFileNoteModal(file: TFile, nextFile?: TFile | null) {
+		new FileNoteModal(this.app, file, { folder: this.settings.lastFiledFolder }, (options) => {
+			this.filePopNote(file, options, nextFile);
+		}).open();
+	}
+
+	/**
+	 * Promote a pop note into the vault by moving it to a regular folder.
+	 * If the note is shown in the PopNote window, the window moves on to nextFile,
+	 * or to the adjacent note if none is given.
+	 */
+	async filePopNote(file: TFile, options: FileNoteOptions, nextFile?: TFile | null) {
+		const name = sanitizeFileName(options.name, file.basename);
+		const folderPath = options.folder ? normalizePath(options.folder) : '';
+		const newPath = normalizePath(folderPath && folderPath !== '/' ? `${folderPath}/${name}.md` : `${name}.md`);
+		if (newPath !== file.path && this.app.vault.getAbstractFileByPath(newPath)) {
+			new Notice(`PopNote: "${newPath}" already exists`);
+			return;
+		}
+
+		// Find the next note before this one stops being a pop note
+		const isShownInWindow = this.windowManager.getCurrentFile()?.path === file.path;
+		if (isShownInWindow && nextFile === undefined) {
+			nextFile = await this.getAdjacentPopNote(file);
+		}
+		const oldPath = file.path;
+
+		try {
+			if (options.stripFrontmatter) {
+				await this.frontmatterManager.stripPopNoteFrontmatter(file);
+			}
+			if (folderPath && folderPath !== '/') {
+				await this.ensureFolderExists(folderPath);
+			}
+			if (isShownInWindow) {
+				this.windowManager.saveCursorPositionFromLeaf();
+			}
+			// renameFile updates links, the rename handler updates pins, cursor positions and file tracking
+			await this.app.fileManager.renameFile(file, newPath);
+		} catch (error) {
+			this.logger.error('Failed to file PopNote:', oldPath, error);
+			new Notice(`PopNote: Could not file note "${file.basename}": ${error.message}`);
+			return;
+		}
+
+		// The buffer time must not reopen a note that is no longer a pop note
+		for (const [profileId, lastCreatedNote] of Object.entries(this.settings.lastCreatedNotes)) {
+			if (lastCreatedNote.path === oldPath || lastCreatedNote.path === newPath) {
+				delete this.settings.lastCreatedNotes[profileId];
+			}
+		}
+		this.settings.lastFiledFolder = options.folder;
+		await this.saveSettings();
+		this.logger.log(`Filed PopNote: ${oldPath} -> ${newPath}`);
+		new Notice(`PopNote: Filed note to ${newPath}`);
+
+		if (isShownInWindow) {
+			await this.showNextAfterRemoval(nextFile || null);
+		}
+	}
+
+	private async openDigest(period: DigestPeriod) {
+		try {
+			const digest = await this.digestManager.createDigest(period);
+			if (digest) {
+				await this.app.workspace.getLeaf().openFile(digest);
+			}
+		} catch (error) {
+			this.logger.error('Failed to create PopNotes digest:', error);
+			new Notice(`PopNote: Could not create digest: ${error.message}`);
+		}
+	}
+
+	sendCurrentPopNote() {
+		const currentFile = this.windowManager.getCurrentFile();
+		if (!currentFile || !this.profileManager.getProfileForFile(currentFile)) {
+			new Notice('No PopNote is currently open');
+			return;
+		}
+		this.openSendToNoteModal(currentFile);
+	}
+
+	openSendToNoteModal(file: TFile) {
+		new SendToNoteModal(this.app, file, this.settings.lastSendToOptions, (options) => {
+			this.sendPopNoteTo(file, options);
+		}).open();
+	}
+
+	/**
+	 * Insert the text of a pop note into another note, then delete or archive the pop note.
+	 */
+	async sendPopNoteTo(file: TFile, options: SendToOptions) {
+		let targetFile: TFile;
+		let text: string;
+		try {
+			if (options.target === 'daily') {
+				targetFile = await getOrCreateDailyNote(this.app);
+			} else {
+				const notePath = normalizePath(options.notePath.endsWith('.md') ? options.notePath : `${options.notePath}.md`);
+				const note = this.app.vault.getAbstractFileByPath(notePath);
+				if (!(note instanceof TFile)) {
+					new Notice(`PopNote: Note "${notePath}" not found`);
+					return;
+				}
+				targetFile = note;
+			}
+
+			if (targetFile.path === file.path) {
+				new Notice('PopNote: Cannot send a note to itself');
+				return;
+			}
+
+			// Send the text without the frontmatter of the pop note
+			text = stripFrontmatter(await this.app.vault.read(file)).trim();
+			if (!text) {
+				new Notice('PopNote: Note is empty');
+				return;
+			}
+
+			await this.captureManager.insertIntoNote(targetFile, text, options.heading, options.position);
+		} catch (error) {
+			this.logger.error('Failed to send PopNote:', file.path, error);
+			new Notice(`PopNote: Could not send note "${file.basename}": ${error.message}`);
+			return;
+		}
+
+		this.settings.lastSendToOptions = options;
+		await this.saveSettings();
+		this.logger.log(`Sent PopNote ${file.path} to ${targetFile.path}`);
+		new Notice(`PopNote: Sent to ${targetFile.basename}`);
+
+		if (options.afterSend === 'archive') {
+			const isShownInWindow = this.windowManager.getCurrentFile()?.path === file.path;
+			const nextFile = isShownInWindow ? await this.getAdjacentPopNote(file) : null;
+			await this.archiveManager.archiveNote(file);
+			if (isShownInWindow) {
+				await this.showNextAfterRemoval(nextFile);
+			}
+		} else {
+			await this.deletePopNote(file);
+		}
+	}
+
+	/**
+	 * Merge pop notes into a new note in chronological order, each under a
+	 * heading with its creation time, then delete or archive the originals.
+	 */
+	async mergePopNotes(files: TFile[]) {
+		if (files.length < 2) {
+			new Notice('PopNote: Select at least two notes to merge');
+			return;
+		}
+
+		const sortedFiles = [...files].sort((a, b) => a.stat.ctime - b.stat.ctime);
+		let mergedFile: TFile;
+		try {
+			const sections: string[] = [];
+			for (const file of sortedFiles) {
+				const text = stripFrontmatter(await this.app.vault.read(file)).trim();
+				const timestamp = moment(file.stat.ctime).format('YYYY-MM-DD HH:mm');
+				sections.push(text ? `### ${timestamp} · ${file.basename}\n\n${text}` : `### ${timestamp} · ${file.basename}`);
+			}
+
+			const profile = this.profileManager.getProfileForFile(sortedFiles[0]) || this.profileManager.getProfile();
+			const content = sections.join('\n\n---\n\n');
+			mergedFile = await this.createNewPopNote(profile, {
+				source: 'merge',
+				content
+			});
+
+			// Never remove the originals unless the merged note really holds their text
+			if (sortedFiles.some(file => file.path === mergedFile.path) || !(await this.app.vault.read(mergedFile)).includes(content)) {
+				this.logger.error('Merged note does not contain the merged content:', mergedFile.path);
+				new Notice('PopNote: Could not merge notes, the originals were kept');
+				return;
+			}
+		} catch (error) {
+			// createNewPopNote already shows a notice
+			this.logger.error('Failed to merge PopNotes:', error);
+			return;
+		}
+
+		for (const file of sortedFiles) {
+			if (this.settings.mergeOriginals === 'archive') {
+				await this.archiveManager.archiveNote(file);
+			} else {
+				await this.app.vault.delete(file);
+			}
+		}
+
+		this.logger.log(`Merged ${sortedFiles.length} PopNotes into:`, mergedFile.path);
+		new Notice(`PopNote: Merged ${sortedFiles.length} notes into ${mergedFile.basename}`);
+		await this.openInPopNoteWindow(mergedFile);
+	}
+
+	/**
+	 * Move the PopNote window on after its note was removed from the pop notes,
+	 * without showing the window if it is hidden.
+	 */
+	private async showNextAfterRemoval(nextFile: TFile | null) {
+		const currentWindow = this.windowManager.getPopNoteWindow();
+		if (!currentWindow || currentWindow.isDestroyed()) {
+			return;
+		}
+
+		if (!nextFile) {
+			if (currentWindow.isVisible()) {
+				await this.hideCurrentPopNoteWindow();
+			}
+			return;
+		}
+
+		if (currentWindow.isVisible()) {
+			await this.windowManager.showPopNoteWindow(nextFile);
+		} else {
+			await this.windowManager.openFileInExistingWindow(nextFile);
+		}
 	}
 
 	async deletePopNote(file: TFile, nextFile?: TFile | null) {
@@ -429,18 +1344,7 @@ export default class PopNotePlugin extends Plugin {
 			if (nextFile !== undefined) {
 				nextFileToOpen = nextFile;
 			} else {
-				// Fall back to the original logic if no nextFile provided
-				const sortedNotes = await this.getPopNotesSorted();
-				const currentIndex = sortedNotes.findIndex(f => f.path === file.path);
-				
-				if (currentIndex !== -1 && sortedNotes.length > 1) {
-					// Try to get the next file, or the previous if we're at the end
-					if (currentIndex < sortedNotes.length - 1) {
-						nextFileToOpen = sortedNotes[currentIndex + 1];
-					} else if (currentIndex > 0) {
-						nextFileToOpen = sortedNotes[currentIndex - 1];
-					}
-				}
+				nextFileToOpen = await this.getAdjacentPopNote(file);
 			}
 		}
 		
@@ -490,10 +1394,12 @@ export default class PopNotePlugin extends Plugin {
 			return;
 		}
 
-		const notes = await this.getPopNotesSorted();
+		// Navigate within the profile of the current note
+		const profile = this.profileManager.getProfileForFile(currentFile);
+		const notes = profile ? await this.getPopNotesSorted({ profileId: profile.id }) : [];
 		const currentIndex = notes.findIndex(n => n.path === currentFile.path);
 		
-		if (currentIndex === -1) {
+		if (!profile || currentIndex === -1) {
 			new Notice('Current file is not a PopNote');
 			return;
 		}
@@ -511,7 +1417,7 @@ export default class PopNotePlugin extends Plugin {
 				this.shouldCreateNewNote = false;
 				this.lastNavigationTimestamp = now;
 				// Create a new note and show it in the existing window
-				const newNote = await this.createNewPopNote();
+				const newNote = await this.createNewPopNote(profile);
 				await this.windowManager.showPopNoteWindow(newNote);
 				return;
 			} else {
@@ -545,37 +1451,9 @@ export default class PopNotePlugin extends Plugin {
 		await this.windowManager.showPopNoteWindow(targetNote);
 	}
 
-	private reconnectExistingPopNoteWindows() {
-		// Delay the window check to avoid startup issues
-		setTimeout(() => {
-			this.logger.log('Checking for existing PopNote windows...');
-			
-			try {
-				const windows = BrowserWindow.getAllWindows();
-				this.logger.log(`Found ${windows.length} total windows`);
-				
-				windows.forEach((win: any, index: number) => {
-					try {
-						if (!win.isDestroyed()) {
-							const title = win.getTitle();
-							this.logger.log(`Window ${index}: ${title}`);
-							
-							if (title.startsWith('PopNote - ')) {
-								this.logger.log('Found existing PopNote window:', title);
-								// Don't reconnect - let it stay as is
-							}
-						}
-					} catch (e) {
-						this.logger.error(`Error checking window ${index}:`, e);
-					}
-				});
-			} catch (error) {
-				this.logger.error('Error checking for existing windows:', error);
-			}
-		}, 1000); // Wait 1 second after plugin load
-	}
-
 	private registerMainWindowCloseHandler() {
+		const { BrowserWindow } = getRemote();
+
 		// Find the main window
 		const windows = BrowserWindow.getAllWindows();
 		const mainWindow = windows.find((w: any) => {
@@ -625,6 +1503,7 @@ export default class PopNotePlugin extends Plugin {
 
 	private registerAppQuitHandlers() {
 		// Register cleanup on app quit
+		const electronApp = getRemote()?.app;
 		if (electronApp) {
 			const handleQuit = () => {
 				this.logger.log('App is quitting, cleaning up...');
@@ -0,0 +1,131 @@
+import { TFile, normalizePath } from 'obsidian';
+import { LastCreatedNote, PopNoteProfile } from '../types';
+import { DEFAULT_PROFILE_ID } from '../settings/settings';
+import type PopNotePlugin from './PopNotePlugin';
+
+export class ProfileManager {
+	private plugin: PopNotePlugin;
+
+	constructor(plugin: PopNotePlugin) {
+		this.plugin = plugin;
+	}
+
+	getProfiles(): PopNoteProfile[] {
+		return [this.getDefaultProfile(), ...(this.plugin.settings.profiles || [])];
+	}
+
+	getProfile(profileId?: string): PopNoteProfile {
+		if (profileId && profileId !== DEFAULT_PROFILE_ID) {
+			const profile = this.plugin.settings.profiles.find(p => p.id === profileId);
+			if (profile) {
+				return profile;
+			}
+		}
+		return this.getDefaultProfile();
+	}
+
+	hasCustomProfiles(): boolean {
+		return this.plugin.settings.profiles.length > 0;
+	}
+
+	/**
+	 * Root folder of the profile's notes. Folders may contain date variables
+	 * like PopNotes/{{year}}/{{month}}, in which case the root is the folder
+	 * before the first variable.
+	 */
+	getProfileFolder(profile: PopNoteProfile): string {
+		return normalizePath(this.getFolderRoot(this.getFolderPattern(profile)));
+	}
+
+	/**
+	 * Folder pattern new notes of the profile are created in. A pattern without
+	 * a fixed root folder would spread notes over the vault root, so it falls
+	 * back to the default folder.
+	 */
+	getFolderPattern(profile: PopNoteProfile): string {
+		const folder = profile.folder || 'PopNotes';
+		return this.isValidFolderPattern(folder) ? folder : 'PopNotes';
+	}
+
+	/**
+	 * A folder pattern needs a fixed first folder: PopNotes/{{year}} is fine,
+	 * {{year}}/PopNotes and PopNotes-{{year}} are not.
+	 */
+	isValidFolderPattern(folder: string): boolean {
+		return !folder || this.getFolderRoot(folder) !== '';
+	}
+
+	private getFolderRoot(folder: string): string {
+		const variableIndex = folder.indexOf('{{');
+		if (variableIndex === -1) {
+			return folder;
+		}
+		const slashIndex = folder.lastIndexOf('/', variableIndex);
+		return slashIndex === -1 ? '' : folder.substring(0, slashIndex);
+	}
+
+	getProfileForFile(file: TFile): PopNoteProfile | null {
+		// Nested profile folders are allowed, so pick the most specific match
+		let match: PopNoteProfile | null = null;
+		let matchLength = -1;
+
+		for (const profile of this.getProfiles()) {
+			const folder = this.getProfileFolder(profile);
+			if (file.path.startsWith(`${folder}/`) && folder.length > matchLength) {
+				match = profile;
+				matchLength = folder.length;
+			}
+		}
+
+		return match;
+	}
+
+	getLastCreatedNote(profileId: string): LastCreatedNote | null {
+		return this.plugin.settings.lastCreatedNotes?.[profileId] || null;
+	}
+
+	setLastCreatedNote(profileId: string, note: LastCreatedNote) {
+		if (!this.plugin.settings.lastCreatedNotes) {
+			this.plugin.settings.lastCreatedNotes = {};
+		}
+		this.plugin.settings.lastCreatedNotes[profileId] = note;
+	}
+
+	createProfile(): PopNoteProfile {
+		const profile: PopNoteProfile = {
+			id: `profile-${Date.now().toString(36)}`,
+			name: 'New profile',
+			folder: `${this.getProfileFolder(this.getDefaultProfile())}/New profile`,
+			templateFile: '',
+			noteNamePattern: this.plugin.settings.noteNamePattern,
+			bufferTime: 'none',
+			bufferPolicy: 'created',
+			bufferRolloverHour: 0,
+			hotkey: ''
+		};
+		this.plugin.settings.profiles.push(profile);
+		return profile;
+	}
+
+	deleteProfile(profileId: string) {
+		this.plugin.settings.profiles = this.plugin.settings.profiles.filter(p => p.id !== profileId);
+		if (this.plugin.settings.lastCreatedNotes?.[profileId]) {
+			delete this.plugin.settings.lastCreatedNotes[profileId];
+		}
+	}
+
+	private getDefaultProfile(): PopNoteProfile {
+		// The default profile is backed by the top-level settings
+		return {
+			id: DEFAULT_PROFILE_ID,
+			name: 'Default',
+			folder: this.plugin.settings.popNotesFolder,
+			templateFile: this.plugin.settings.templateFile,
+			noteNamePattern: this.plugin.settings.noteNamePattern,
+			bufferTime: this.plugin.settings.bufferTime,
+			bufferPolicy: this.plugin.settings.bufferPolicy,
+			bufferRolloverHour: this.plugin.settings.bufferRolloverHour,
+			hotkey: this.plugin.settings.createNoteHotkey
+		};
+	}
+}
@@ -0,0 +1,98 @@
+import { App, Notice, TFile } from 'obsidian';
+import { Logger } from '../utils/logger';
+import type PopNotePlugin from './PopNotePlugin';
+
+/**
+ * Inbox-zero review: walks through unprocessed pop notes from oldest to
+ * newest in the PopNote window.
+ */
+export class ReviewManager {
+	private app: App;
+	private plugin: PopNotePlugin;
+	private logger: Logger;
+	// Notes skipped in the current review session
+	private skippedPaths: Set<string> = new Set();
+
+	constructor(app: App, plugin: PopNotePlugin, logger: Logger) {
+		this.app = app;
+		this.plugin = plugin;
+		this.logger = logger;
+	}
+
+	async startReview() {
+		this.skippedPaths.clear();
+		const next = await this.getNextNote();
+		if (!next) {
+			new Notice('PopNote: No unprocessed notes to review');
+			return;
+		}
+		await this.showNote(next);
+	}
+
+	async markProcessed() {
+		const file = this.getCurrentNote();
+		if (!file) {
+			return;
+		}
+		await this.plugin.getFrontmatterManager().setStatus(file, 'processed');
+		this.logger.log('Marked PopNote as processed:', file.path);
+		await this.showNote(await this.getNextNote(file));
+	}
+
+	async archive() {
+		const file = this.getCurrentNote();
+		if (!file) {
+			return;
+		}
+		const next = await this.getNextNote(file);
+		await this.plugin.getArchiveManager().archiveNote(file);
+		await this.showNote(next);
+	}
+
+	async promote() {
+		const file = this.getCurrentNote();
+		if (!file) {
+			return;
+		}
+		// Filing moves the window on to the next note to review
+		this.plugin.openFileNoteModal(file, await this.getNextNote(file));
+	}
+
+	async skip() {
+		const file = this.getCurrentNote();
+		if (!file) {
+			return;
+		}
+		this.skippedPaths.add(file.path);
+		await this.showNote(await this.getNextNote(file));
+	}
+
+	private getCurrentNote(): TFile | null {
+		const currentFile = this.plugin.getWindowManager().getCurrentFile();
+		if (!currentFile || !this.plugin.getProfileManager().getProfileForFile(currentFile)) {
+			new Notice('No PopNote is currently open');
+			return null;
+		}
+		return currentFile;
+	}
+
+	private async getNextNote(exclude?: TFile): Promise<TFile | null> {
+		const notes = await this.plugin.getPopNotesSorted({ status: 'unprocessed' });
+		const candidates = notes
+			.filter(file => file.path !== exclude?.path && !this.skippedPaths.has(file.path))
+			.sort((a, b) => a.stat.ctime - b.stat.ctime); // Oldest first
+		return candidates[0] || null;
+	}
+
+	private async showNote(file: TFile | null) {
+		if (!file) {
+			new Notice('PopNote: Review complete, no unprocessed notes left');
+			return;
+		}
+
+		const windowManager = this.plugin.getWindowManager();
+		windowManager.saveCursorPositionFromLeaf();
+		await this.plugin.saveSettings();
+		await windowManager.showPopNoteWindow(file);
+	}
+}
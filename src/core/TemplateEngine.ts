@@ -0,0 +1,53 @@
+import { moment } from 'obsidian';
+import type { unitOfTime } from 'moment';
+
+type MomentInstance = ReturnType<typeof moment>;
+
+export interface TemplateContext {
+	now?: MomentInstance;
+	// Overrides for the default format of date variables, e.g. { time: 'HH-mm-ss' }
+	formats?: { [name: string]: string };
+	// Additional plain variables such as title
+	variables?: { [name: string]: string };
+}
+
+// Default moment formats for the built-in date variables (local time)
+const DATE_VARIABLE_FORMATS: { [name: string]: string } = {
+	date: 'YYYY-MM-DD',
+	time: 'HH:mm:ss',
+	timestamp: 'x',
+	year: 'YYYY',
+	month: 'MM',
+	day: 'DD',
+	hour: 'HH',
+	minute: 'mm',
+	second: 'ss'
+};
+
+// Matches {{name}}, {{name:FORMAT}}, {{name+1d}} and {{name-2w:FORMAT}}
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*(?:([+-])\s*(\d+)\s*([yMwdhms]))?\s*(?::([^}]*))?\}\}/g;
+
+export class TemplateEngine {
+	render(template: string, context: TemplateContext = {}): string {
+		const now = context.now ? context.now.clone() : moment();
+
+		return template.replace(VARIABLE_PATTERN, (match: string, name: string, sign?: string, amount?: string, unit?: string, format?: string) => {
+			if (name in DATE_VARIABLE_FORMATS) {
+				const date = now.clone();
+				if (sign && amount && unit) {
+					const offset = parseInt(amount) * (sign === '-' ? -1 : 1);
+					date.add(offset, unit as unitOfTime.DurationConstructor);
+				}
+				const defaultFormat = context.formats?.[name] || DATE_VARIABLE_FORMATS[name];
+				return date.format(format?.trim() || defaultFormat);
+			}
+
+			if (context.variables && name in context.variables) {
+				return context.variables[name];
+			}
+
+			// Leave unknown variables untouched
+			return match;
+		});
+	}
+}
@@ -0,0 +1,66 @@
+import { App, TFile } from 'obsidian';
+import { Logger } from '../utils/logger';
+
+export type TemplateProcessor = 'builtin' | 'templater' | 'core';
+
+const TEMPLATER_PLUGIN_ID = 'templater-obsidian';
+const CORE_TEMPLATES_PLUGIN_ID = 'templates';
+
+export class TemplateIntegration {
+	private app: App;
+	private logger: Logger;
+
+	constructor(app: App, logger: Logger) {
+		this.app = app;
+		this.logger = logger;
+	}
+
+	/**
+	 * Resolve the configured template engine to one that is actually available,
+	 * falling back to the built-in engine.
+	 */
+	resolveProcessor(setting: 'auto' | TemplateProcessor): TemplateProcessor {
+		if ((setting === 'auto' || setting === 'templater') && this.isTemplaterAvailable()) {
+			return 'templater';
+		}
+		if ((setting === 'auto' || setting === 'core') && this.isCoreTemplatesEnabled()) {
+			return 'core';
+		}
+		if (setting !== 'auto' && setting !== 'builtin') {
+			this.logger.warn(`Template engine ${setting} is not available, using the built-in engine`);
+		}
+		return 'builtin';
+	}
+
+	isTemplaterAvailable(): boolean {
+		const templater = this.getTemplaterPlugin();
+		return !!templater?.templater?.write_template_to_file;
+	}
+
+	isCoreTemplatesEnabled(): boolean {
+		const corePlugin = (this.app as any).internalPlugins?.getPluginById?.(CORE_TEMPLATES_PLUGIN_ID);
+		return !!corePlugin?.enabled;
+	}
+
+	/**
+	 * Date and time formats configured in the core Templates plugin.
+	 */
+	getCoreTemplateFormats(): { date: string; time: string } {
+		const corePlugin = (this.app as any).internalPlugins?.getPluginById?.(CORE_TEMPLATES_PLUGIN_ID);
+		const options = corePlugin?.instance?.options || {};
+		return {
+			date: options.dateFormat || 'YYYY-MM-DD',
+			time: options.timeFormat || 'HH:mm'
+		};
+	}
+
+	async applyTemplater(templateFile: TFile, file: TFile) {
+		const templater = this.getTemplaterPlugin();
+		this.logger.log('Processing template with Templater:', templateFile.path);
+		await templater.templater.write_template_to_file(templateFile, file);
+	}
+
+	private getTemplaterPlugin(): any {
+		return (this.app as any).plugins?.plugins?.[TEMPLATER_PLUGIN_ID];
+	}
+}
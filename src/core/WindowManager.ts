@@ -1,26 +1,60 @@
-import { App, MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+import { App, MarkdownView, Notice, Platform, TFile, WorkspaceLeaf, WorkspaceWindow } from 'obsidian';
 import { Logger } from '../utils/logger';
+import { getRemote, hasNativeWindows } from '../utils/platform';
 import { FileTracker } from './FileTracker';
+import { PopoutWindow } from './FallbackWindow';
+import { PopNoteModal } from '../ui/PopNoteModal';
+import { StickyNoteState } from '../types';
 import type PopNotePlugin from './PopNotePlugin';
 
-// Access Electron APIs
-const { remote } = require('electron');
-const { BrowserWindow } = remote;
+// Registry ID of the main PopNote window
+const MAIN_WINDOW_ID = 'main';
+
+type WindowLevel = 'screen-saver' | 'floating' | 'normal';
+
+interface PopNoteWindowEntry {
+	window: any; // Electron BrowserWindow, or a PopNoteWindowHandle without Electron remote
+	leaf: WorkspaceLeaf | null;
+	currentFile: TFile | null;
+	sticky: boolean;
+}
+
+interface WindowBounds {
+	width: number;
+	height: number;
+	x?: number;
+	y?: number;
+}
 
 export class WindowManager {
 	private app: App;
 	private plugin: PopNotePlugin;
 	private logger: Logger;
 	private fileTracker: FileTracker;
-	private popNoteWindow: any = null;
-	private popNoteLeaf: WorkspaceLeaf | null = null;
-	private currentFile: TFile | null = null;
+	// The main PopNote window and any sticky note windows, by window ID
+	private windows: Map<string, PopNoteWindowEntry> = new Map();
 
 	constructor(app: App, plugin: PopNotePlugin, logger: Logger, fileTracker: FileTracker) {
 		this.app = app;
 		this.plugin = plugin;
 		this.logger = logger;
 		this.fileTracker = fileTracker;
+		this.windows.set(MAIN_WINDOW_ID, { window: null, leaf: null, currentFile: null, sticky: false });
+
+		if (!hasNativeWindows()) {
+			// Closing the fallback popout is the same as hiding the PopNote window
+			this.plugin.registerEvent(this.app.workspace.on('window-close', (workspaceWindow: WorkspaceWindow) => {
+				const popout = this.main.window;
+				if (popout instanceof PopoutWindow && popout.getContainer() === workspaceWindow
+					&& !popout.wasHiddenByPopNote() && this.main.currentFile) {
+					this.plugin.handlePopNoteLeave(this.main.currentFile);
+				}
+			}));
+		}
+	}
+
+	private get main(): PopNoteWindowEntry {
+		return this.windows.get(MAIN_WINDOW_ID)!;
 	}
 
 	async showPopNoteWindow(file: TFile) {
@@ -30,84 +64,131 @@ export class WindowManager {
 		this.fileTracker.trackFile(file);
 		
 		// Save cursor position for current file if switching
-		if (this.currentFile && this.currentFile !== file) {
-			this.logger.log(`Switching from ${this.currentFile.path} to ${file.path}, saving cursor position`);
-			this.saveCursorPositionFromLeaf();
+		const entry = this.main;
+		const previousFile = entry.currentFile && entry.currentFile !== file ? entry.currentFile : null;
+		if (previousFile) {
+			this.logger.log(`Switching from ${previousFile.path} to ${file.path}, saving cursor position`);
+			this.saveCursorPosition(entry);
 		}
 
 		// If window doesn't exist, create it and open file
-		if (!this.popNoteWindow || this.popNoteWindow.isDestroyed()) {
-			await this.createPopNoteWindowWithFile(file);
-			this.currentFile = file;
-			// Restore cursor position if available
-			this.restoreCursorPosition(file);
+		if (!entry.window || entry.window.isDestroyed()) {
+			if (hasNativeWindows()) {
+				await this.createPopNoteWindowWithFile(file);
+			} else {
+				await this.createFallbackWindow(file);
+			}
+			// createWindow clears the entry if the window could not be opened
+			if (entry.window) {
+				entry.currentFile = file;
+				this.saveWindowState(true);
+			}
 			return;
 		}
 
 		// Window exists, just open the file
-		// First try to use the stored popNoteLeaf if it exists
-		if (this.popNoteLeaf && !(this.popNoteLeaf as any).detached) {
-			await this.popNoteLeaf.openFile(file);
-			this.currentFile = file;
+		await this.openFileInEntry(entry, file);
+
+		// Show and focus the window
+		entry.window.show();
+		entry.window.focus();
+		this.saveWindowState(true);
+
+		if (previousFile) {
+			await this.plugin.handlePopNoteLeave(previousFile);
+		}
+	}
+
+	/**
+	 * Open a file in the leaf of a window that already exists.
+	 */
+	private async openFileInEntry(entry: PopNoteWindowEntry, file: TFile) {
+		if (entry.window instanceof PopNoteModal) {
+			await entry.window.openFile(file);
+			entry.currentFile = file;
+			return;
+		}
+
+		// First try to use the stored leaf if it exists
+		if (entry.leaf && !(entry.leaf as any).detached) {
+			await entry.leaf.openFile(file);
+			entry.currentFile = file;
 			// Restore cursor position if available
-			this.restoreCursorPosition(file);
+			this.restoreCursorPosition(entry, file);
 		} else {
 			// Find all workspace items that might be our window
 			const workspaceItems = (this.app.workspace as any).floatingSplit?.children || [];
 			for (const item of workspaceItems) {
-				if (item.win === this.popNoteWindow) {
+				if (item.win === entry.window) {
 					// Found our window's workspace, get a leaf and open file
 					const leaf = item.getLeaf();
 					if (leaf) {
-						this.popNoteLeaf = leaf; // Update the leaf reference
+						entry.leaf = leaf; // Update the leaf reference
 						await leaf.openFile(file);
-						this.currentFile = file;
+						entry.currentFile = file;
 						// Restore cursor position if available
-						this.restoreCursorPosition(file);
+						this.restoreCursorPosition(entry, file);
 					}
 					break;
 				}
 			}
 		}
+	}
 
-		// Show and focus the window
-		this.popNoteWindow.show();
-		this.popNoteWindow.focus();
+	private getWindowSize(): { width: number; height: number } {
+		if (this.plugin.settings.windowSizeMode === 'remember' && this.plugin.settings.lastUsedWindowSize) {
+			this.logger.log('Using remembered window size:', this.plugin.settings.lastUsedWindowSize);
+			return { ...this.plugin.settings.lastUsedWindowSize };
+		}
+		return { width: this.plugin.settings.defaultWindowWidth, height: this.plugin.settings.defaultWindowHeight };
+	}
+
+	/**
+	 * Without Electron remote, the PopNote window is a regular Obsidian popout,
+	 * or a modal on mobile where there are no popouts.
+	 */
+	private async createFallbackWindow(file: TFile) {
+		this.logger.log('Opening PopNote fallback window with file:', file.path);
+		const entry = this.main;
+		this.fileTracker.trackFile(file);
+
+		if (Platform.isMobile) {
+			const modal = new PopNoteModal(this.app, file, (hiddenFile) => this.plugin.handlePopNoteLeave(hiddenFile));
+			entry.window = modal;
+			entry.leaf = null;
+			entry.currentFile = file;
+			modal.open();
+			return;
+		}
+
+		const leaf = this.app.workspace.openPopoutLeaf({ size: this.getWindowSize() });
+		await leaf.openFile(file);
+		entry.window = new PopoutWindow(this.app, leaf);
+		entry.leaf = leaf;
+		entry.currentFile = file;
+		this.restoreCursorPosition(entry, file);
 	}
 
 	private async createPopNoteWindowWithFile(file: TFile) {
 		this.logger.log('Creating new PopNote window with file:', file.path);
 		
-		// Track this file
-		this.fileTracker.trackFile(file);
-		
 		// Determine window size
-		let width = this.plugin.settings.defaultWindowWidth;
-		let height = this.plugin.settings.defaultWindowHeight;
-		
-		if (this.plugin.settings.windowSizeMode === 'remember' && this.plugin.settings.lastUsedWindowSize) {
-			width = this.plugin.settings.lastUsedWindowSize.width;
-			height = this.plugin.settings.lastUsedWindowSize.height;
-			this.logger.log('Using remembered window size:', width, 'x', height);
-		}
+		const { width, height } = this.getWindowSize();
 
 		// Determine window position
-		let x: number | undefined;
-		let y: number | undefined;
+		const { x, y } = this.calculateWindowPosition(width, height);
 
-		if (this.plugin.settings.windowPosition === 'last' && this.plugin.settings.lastWindowPosition) {
-			x = this.plugin.settings.lastWindowPosition.x;
-			y = this.plugin.settings.lastWindowPosition.y;
-			this.logger.log('Using last window position:', x, y);
-		} else if (this.plugin.settings.windowPosition === 'left') {
-			x = 0;
-			y = 0;
-		} else if (this.plugin.settings.windowPosition === 'right') {
-			const { width: screenWidth } = remote.screen.getPrimaryDisplay().workAreaSize;
-			x = screenWidth - width;
-			y = 0;
-		}
-		// If center or undefined, let Electron center it
+		await this.createWindow(this.main, file, { width, height, x, y }, this.plugin.settings.windowLevel);
+	}
+
+	/**
+	 * Create a popout window for a registry entry and open the file in it.
+	 */
+	private async createWindow(entry: PopNoteWindowEntry, file: TFile, bounds: WindowBounds, windowLevel: WindowLevel) {
+		const { width, height, x, y } = bounds;
+
+		// Track this file
+		this.fileTracker.trackFile(file);
 
 		// Create window data for Obsidian API
 		const windowData: any = {
@@ -120,139 +201,84 @@ export class WindowManager {
 
 		this.logger.log('Creating window with data:', JSON.stringify(windowData));
 
-		// Store current windows before creating new one
-		const windowsBefore = BrowserWindow.getAllWindows();
-		
 		// Use Obsidian's API to create the window
 		const leaf = this.app.workspace.openPopoutLeaf(windowData);
-		this.popNoteLeaf = leaf;
-		
-		// Use requestAnimationFrame for more reliable timing
-		let attempts = 0;
-		const maxAttempts = 10; // Prevent infinite loop
-		
-		const fixWindowSize = () => {
-			const allWindowsAfter = BrowserWindow.getAllWindows();
-			const newWindow = allWindowsAfter.find((w: any) => !windowsBefore.includes(w) && !w.isDestroyed());
-			if (newWindow) {
-				const [currentWidth, currentHeight] = newWindow.getSize();
-				this.logger.log(`Immediate check - Current size: ${currentWidth}x${currentHeight}, requested: ${width}x${height}`);
-				if (currentWidth !== width || currentHeight !== height) {
-					newWindow.setSize(width, height);
-					this.logger.log('Fixed size immediately after window creation');
-				}
-			} else if (attempts < maxAttempts) {
-				// If window not found yet, try again on next frame
-				attempts++;
-				requestAnimationFrame(fixWindowSize);
-			}
-		};
-		
-		// Start checking on next animation frame
-		requestAnimationFrame(fixWindowSize);
-		
+		entry.leaf = leaf;
+
 		await leaf.openFile(file);
-		
-		// Try to get the window immediately through the leaf
+
+		// Identify the window through the popout that owns the leaf, so no other window can be picked up
+		const popoutWindow = await this.getPopoutWindow(leaf);
+		const newWindow = popoutWindow ? await this.findBrowserWindow(popoutWindow) : null;
+		if (!newWindow) {
+			// An untracked popout could neither be hidden nor reused, so close it again
+			this.logger.error('Could not find the newly created window');
+			leaf.detach();
+			this.clearEntry(entry);
+			new Notice('PopNote: Could not open the PopNote window');
+			return;
+		}
+
 		try {
-			const leafWin = (leaf as any).view?.containerEl?.win || (leaf as any).containerEl?.win;
-			if (leafWin && !leafWin.isDestroyed()) {
-				this.logger.log('Found window through leaf immediately');
-				const [currentWidth, currentHeight] = leafWin.getSize();
-				this.logger.log(`Current size: ${currentWidth}x${currentHeight}, requested: ${width}x${height}`);
-				if (currentWidth !== width || currentHeight !== height) {
-					leafWin.setSize(width, height);
-					this.logger.log('Set size immediately after creation');
-				}
+			entry.window = newWindow;
+			entry.currentFile = file;
+			this.logger.log(`Created PopNote window with ID: ${newWindow.id}`);
+			
+			// If the size doesn't match what we requested, set it explicitly
+			const [actualWidth, actualHeight] = newWindow.getSize();
+			if (actualWidth !== width || actualHeight !== height) {
+				this.logger.log(`Window size mismatch (${actualWidth}x${actualHeight}), setting to requested size: ${width}x${height}`);
+				newWindow.setSize(width, height);
 			}
-		} catch (e) {
-			this.logger.log('Could not get window through leaf:', e);
-		}
-		
-		// Wait for window to be created and track it
-		setTimeout(() => {
-			try {
-				this.logger.log(`Looking for new window... Windows before: ${windowsBefore.length}`);
-				const allWindows = BrowserWindow.getAllWindows();
-				this.logger.log(`Current windows: ${allWindows.length}`);
-				
-				// Find the new window by comparing with windows before
-				let newWindow: any = null;
-				
-				for (const window of allWindows) {
-					if (!windowsBefore.includes(window) && !window.isDestroyed()) {
-						newWindow = window;
-						break;
-					}
-				}
-				
-				if (newWindow) {
-					this.popNoteWindow = newWindow;
-					this.logger.log(`Created PopNote window with ID: ${newWindow.id}`);
-					
-					// Log actual window size immediately after creation
-					const [actualWidth, actualHeight] = newWindow.getSize();
-					this.logger.log(`Actual window size after creation: ${actualWidth}x${actualHeight} (requested: ${width}x${height})`);
-					
-					// If the size doesn't match what we requested, set it explicitly
-					if (actualWidth !== width || actualHeight !== height) {
-						this.logger.log(`Window size mismatch, setting to requested size: ${width}x${height}`);
-						newWindow.setSize(width, height);
-					}
-					
-					// Set custom window properties to identify PopNote windows
-					try {
-						const windowAny = newWindow as any;
-						windowAny.isPopNote = true;
-						windowAny.vaultId = this.app.vault.getName();
-						windowAny.popNoteId = `popnote-${Date.now()}-${newWindow.id}`;
-						
-						this.logger.log(`Set PopNote window properties - vaultId: ${this.app.vault.getName()}, popNoteId: ${windowAny.popNoteId}`);
-					} catch (error) {
-						this.logger.error('Error setting window properties:', error);
-					}
+			
+			// Set custom window properties to identify PopNote windows
+			this.markPopNoteWindow(newWindow);
 
-					// Apply window level settings
-					if (this.plugin.settings.windowLevel !== 'normal') {
-						try {
-							// Set always on top for floating and screen-saver levels
-							newWindow.setAlwaysOnTop(true, this.plugin.settings.windowLevel);
-							
-							// For screen-saver level on macOS, also set visible on all workspaces
-							if (process.platform === 'darwin' && this.plugin.settings.windowLevel === 'screen-saver' && this.plugin.settings.visibleOnAllWorkspaces) {
-								newWindow.setVisibleOnAllWorkspaces(true, { 
-									visibleOnFullScreen: true,
-									skipTransformProcessType: true
-								});
-							}
-						} catch (error) {
-							this.logger.error('Failed to set window level settings:', error);
-						}
-					}
+			// Apply window level settings
+			this.applyWindowLevel(newWindow, windowLevel);
 
-					// Set up event handlers
-					this.setupWindowEventHandlers(newWindow);
+			// Set up event handlers
+			if (entry.sticky) {
+				this.setupStickyWindowEventHandlers(entry);
+			} else {
+				this.setupWindowEventHandlers(newWindow);
+			}
 
-					// Apply cursor position
-					if (this.plugin.settings.cursorPosition === 'last') {
-						setTimeout(() => {
-							this.restoreCursorPosition(file);
-						}, 100);
-					}
+			// Apply cursor position
+			this.restoreCursorPosition(entry, file);
+		} catch (error) {
+			this.logger.error('Error tracking new window:', error);
+		}
+	}
 
-					// Update current file reference
-					this.currentFile = file;
-				} else {
-					this.logger.error('Could not find the newly created window');
+	/**
+	 * The DOM window of the popout that contains a leaf. Falls back to the
+	 * workspace window-open event if the popout is not attached yet.
+	 */
+	private getPopoutWindow(leaf: WorkspaceLeaf): Promise<Window | null> {
+		const container = leaf.getContainer();
+		if (container instanceof WorkspaceWindow) {
+			return Promise.resolve(container.win);
+		}
+
+		return new Promise(resolve => {
+			const timeout = window.setTimeout(() => {
+				this.app.workspace.offref(eventRef);
+				resolve(null);
+			}, 2000);
+			const eventRef = this.app.workspace.on('window-open', (workspaceWindow: WorkspaceWindow, win: Window) => {
+				if (leaf.getContainer() === workspaceWindow) {
+					window.clearTimeout(timeout);
+					this.app.workspace.offref(eventRef);
+					resolve(win);
 				}
-			} catch (error) {
-				this.logger.error('Error tracking new window:', error);
-			}
-		}, 200); // Give Obsidian time to create the window
+			});
+		});
 	}
 
 	async openFileInExistingWindow(file: TFile) {
-		if (!this.popNoteWindow || this.popNoteWindow.isDestroyed()) {
+		const entry = this.main;
+		if (!entry.window || entry.window.isDestroyed()) {
 			throw new Error('No existing window to open file in');
 		}
 
@@ -260,34 +286,49 @@ export class WindowManager {
 		const leaves = this.app.workspace.getLeavesOfType('markdown');
 		for (const leaf of leaves) {
 			// Check if this leaf is in our popnote window
-			if ((leaf as any).view?.containerEl?.ownerDocument?.defaultView === this.popNoteWindow) {
-				this.popNoteLeaf = leaf;
+			if ((leaf as any).view?.containerEl?.ownerDocument?.defaultView === entry.window) {
+				entry.leaf = leaf;
 				this.logger.log('Updated popNoteLeaf reference on window unhide');
 				break;
 			}
 		}
 
-		if (this.popNoteLeaf) {
-			await this.popNoteLeaf.openFile(file);
-			this.currentFile = file;
+		// Also switches the fallback modal, which has no leaf
+		const previousFile = entry.currentFile;
+		await this.openFileInEntry(entry, file);
+		if (entry.currentFile !== file) {
+			return;
+		}
+		this.saveWindowState();
+
+		if (previousFile && previousFile !== file) {
+			await this.plugin.handlePopNoteLeave(previousFile);
 		}
 	}
 
 	showExistingWindow() {
-		if (!this.popNoteWindow || this.popNoteWindow.isDestroyed()) {
+		const popNoteWindow = this.main.window;
+		if (!popNoteWindow || popNoteWindow.isDestroyed()) {
 			throw new Error('No existing window to show');
 		}
 
+		// Fallback windows have no size, position or level to apply
+		if (!hasNativeWindows()) {
+			popNoteWindow.show();
+			this.saveWindowState(true);
+			return;
+		}
+
 		// Apply window size if needed
 		if (this.plugin.settings.windowSizeMode === 'fixed') {
 			// Apply fixed size from settings
-			this.popNoteWindow.setSize(
+			popNoteWindow.setSize(
 				this.plugin.settings.defaultWindowWidth,
 				this.plugin.settings.defaultWindowHeight
 			);
 		} else if (this.plugin.settings.windowSizeMode === 'remember' && this.plugin.settings.lastUsedWindowSize) {
 			// Apply remembered size
-			this.popNoteWindow.setSize(
+			popNoteWindow.setSize(
 				this.plugin.settings.lastUsedWindowSize.width,
 				this.plugin.settings.lastUsedWindowSize.height
 			);
@@ -296,74 +337,257 @@ export class WindowManager {
 		// Apply window position if needed
 		if (this.plugin.settings.windowPosition !== 'last') {
 			// Get current size (may have just been updated)
-			const [width, height] = this.popNoteWindow.getSize();
+			const [width, height] = popNoteWindow.getSize();
 			const position = this.calculateWindowPosition(width, height);
-			this.popNoteWindow.setPosition(position.x, position.y);
+			popNoteWindow.setPosition(position.x, position.y);
 		}
 		
 		// Re-apply window level settings before showing (may be lost during hide)
-		if (this.plugin.settings.windowLevel !== 'normal') {
-			try {
-				// Set always on top for floating and screen-saver levels
-				this.popNoteWindow.setAlwaysOnTop(true, this.plugin.settings.windowLevel);
-				
-				// For screen-saver level on macOS, also set visible on all workspaces
-				if (process.platform === 'darwin' && this.plugin.settings.windowLevel === 'screen-saver' && this.plugin.settings.visibleOnAllWorkspaces) {
-					this.popNoteWindow.setVisibleOnAllWorkspaces(true, { 
-						visibleOnFullScreen: true,
-						skipTransformProcessType: true
-					});
-				}
-			} catch (error) {
-				this.logger.error('Failed to re-apply window level settings:', error);
-			}
-		}
+		this.applyWindowLevel(popNoteWindow, this.plugin.settings.windowLevel);
 		
 		// Show the window
-		this.logger.log(`Showing PopNote window with ID: ${this.popNoteWindow.id}`);
+		this.logger.log(`Showing PopNote window with ID: ${popNoteWindow.id}`);
 		
 		// On macOS, use showInactive first to avoid space switching
-		if (process.platform === 'darwin') {
-			this.popNoteWindow.showInactive();
+		if (Platform.isMacOS) {
+			popNoteWindow.showInactive();
 			// Small delay before focus to ensure window is properly shown
 			setTimeout(() => {
-				if (this.popNoteWindow && !this.popNoteWindow.isDestroyed()) {
-					this.popNoteWindow.focus();
+				if (!popNoteWindow.isDestroyed()) {
+					popNoteWindow.focus();
 				}
 			}, 50);
 		} else {
-			this.popNoteWindow.show();
-			this.popNoteWindow.focus();
+			popNoteWindow.show();
+			popNoteWindow.focus();
 		}
 		
 		// Restore cursor position for current file
-		if (this.currentFile) {
-			this.restoreCursorPosition(this.currentFile);
+		if (this.main.currentFile) {
+			this.restoreCursorPosition(this.main, this.main.currentFile);
 		}
+		this.saveWindowState(true);
 	}
 
-	private calculateWindowPosition(width: number, height: number): { x: number; y: number } {
-		let x = 0;
-		let y = 0;
+	/**
+	 * Obsidian restores the PopNote popout with the rest of the workspace after
+	 * a restart. Reattach it as the PopNote window, or reopen the window from the
+	 * saved state if it was visible and Obsidian did not restore it.
+	 */
+	async restorePopNoteWindow() {
+		const state = this.plugin.settings.popWindowState;
+		if (!state || !hasNativeWindows()) {
+			return;
+		}
 
-		if (this.plugin.settings.windowPosition === 'last' && this.plugin.settings.lastWindowPosition) {
-			x = this.plugin.settings.lastWindowPosition.x;
-			y = this.plugin.settings.lastWindowPosition.y;
-		} else if (this.plugin.settings.windowPosition === 'left') {
-			x = 0;
-			y = 0;
-		} else if (this.plugin.settings.windowPosition === 'right') {
-			const { width: screenWidth } = remote.screen.getPrimaryDisplay().workAreaSize;
-			x = screenWidth - width;
-			y = 0;
+		const file = this.app.vault.getAbstractFileByPath(state.path);
+		if (!(file instanceof TFile)) {
+			this.logger.log('PopNote window note no longer exists:', state.path);
+			return;
+		}
+
+		const leaf = this.findRestoredLeaf(file, true);
+		if (leaf) {
+			await this.reattachWindow(this.main, leaf, file, this.plugin.settings.windowLevel, state.visible);
+		} else if (state.visible) {
+			this.logger.log('Reopening PopNote window with:', file.path);
+			const bounds: WindowBounds = state.bounds || {
+				width: this.plugin.settings.defaultWindowWidth,
+				height: this.plugin.settings.defaultWindowHeight
+			};
+			await this.createWindow(this.main, file, bounds, this.plugin.settings.windowLevel);
+			// createWindow clears the entry if the window could not be opened
+			if (this.main.window) {
+				this.main.currentFile = file;
+			}
+		}
+	}
+
+	/**
+	 * Find a popout leaf that Obsidian restored for a file and that is not
+	 * registered yet. Sticky note popouts can show the same file as the PopNote
+	 * window, so they are skipped when looking for the PopNote window.
+	 */
+	private findRestoredLeaf(file: TFile, skipStickyNotes: boolean): WorkspaceLeaf | null {
+		const registeredLeaves = Array.from(this.windows.values()).map(entry => entry.leaf);
+		const stickyPaths = skipStickyNotes ? this.plugin.settings.stickyNotes.map(state => state.path) : [];
+		// Restored views may still be deferred, so match on the view state instead of view.file
+		return this.app.workspace.getLeavesOfType('markdown').find(leaf => {
+			const path = leaf.getViewState().state?.file;
+			return leaf.getContainer() instanceof WorkspaceWindow &&
+				path === file.path &&
+				!stickyPaths.includes(path) &&
+				!registeredLeaves.includes(leaf);
+		}) || null;
+	}
+
+	private async reattachWindow(entry: PopNoteWindowEntry, leaf: WorkspaceLeaf, file: TFile, windowLevel: WindowLevel, visible: boolean) {
+		const popoutWindow = (leaf.getContainer() as WorkspaceWindow).win;
+		const browserWindow = await this.findBrowserWindow(popoutWindow);
+		if (!browserWindow) {
+			this.logger.error('Could not find the window of the restored PopNote popout');
+			return;
+		}
+
+		entry.window = browserWindow;
+		entry.leaf = leaf;
+		entry.currentFile = file;
+		this.fileTracker.trackFile(file);
+
+		this.markPopNoteWindow(browserWindow);
+		this.applyWindowLevel(browserWindow, windowLevel);
+		if (entry.sticky) {
+			this.setupStickyWindowEventHandlers(entry);
 		} else {
-			// Center
-			const { width: screenWidth, height: screenHeight } = remote.screen.getPrimaryDisplay().workAreaSize;
-			x = Math.floor((screenWidth - width) / 2);
-			y = Math.floor((screenHeight - height) / 2);
+			this.setupWindowEventHandlers(browserWindow);
+		}
+		if (!visible) {
+			browserWindow.hide();
+		}
+		this.logger.log(`Reattached restored PopNote window with ID: ${browserWindow.id}`);
+	}
+
+	/**
+	 * Find the Electron window of a popout by giving its document a unique
+	 * title and looking that title up among all windows. A direct lookup is not
+	 * possible: remote has no API that maps a renderer Window of a popout to its
+	 * BrowserWindow, and getCurrentWindow() only returns the main window.
+	 */
+	private async findBrowserWindow(popoutWindow: Window): Promise<any> {
+		const originalTitle = popoutWindow.document.title;
+		const token = `popnote-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+		popoutWindow.document.title = token;
+
+		try {
+			// The title reaches the main process asynchronously, so poll for up to a second
+			for (let attempt = 0; attempt < 20; attempt++) {
+				// Obsidian may retitle a popout while it loads
+				if (popoutWindow.document.title !== token) {
+					popoutWindow.document.title = token;
+				}
+				const match = getRemote().BrowserWindow.getAllWindows().find((w: any) => !w.isDestroyed() && w.getTitle() === token);
+				if (match) {
+					return match;
+				}
+				await sleep(50);
+			}
+			return null;
+		} finally {
+			popoutWindow.document.title = originalTitle;
+		}
+	}
+
+	private markPopNoteWindow(window: any) {
+		try {
+			window.isPopNote = true;
+			window.vaultId = this.app.vault.getName();
+			window.popNoteId = `popnote-${Date.now()}-${window.id}`;
+			
+			this.logger.log(`Set PopNote window properties - vaultId: ${this.app.vault.getName()}, popNoteId: ${window.popNoteId}`);
+		} catch (error) {
+			this.logger.error('Error setting window properties:', error);
+		}
+	}
+
+	/**
+	 * Remember the note, visibility and geometry of the PopNote window for
+	 * restoring it after a restart.
+	 */
+	private saveWindowState(visible?: boolean) {
+		const entry = this.main;
+		if (!entry.currentFile) return;
+
+		const previousState = this.plugin.settings.popWindowState;
+		let bounds = previousState?.bounds || null;
+		try {
+			if (hasNativeWindows() && entry.window && !entry.window.isDestroyed()) {
+				bounds = entry.window.getBounds();
+			}
+		} catch (error) {
+			this.logger.error('Error reading window bounds:', error);
+		}
+
+		this.plugin.settings.popWindowState = {
+			path: entry.currentFile.path,
+			visible: visible ?? previousState?.visible ?? false,
+			bounds
+		};
+		this.plugin.saveSettings();
+	}
+
+	private calculateWindowPosition(width: number, height: number): { x: number; y: number } {
+		if (this.plugin.settings.windowPosition === 'last' && this.plugin.settings.lastWindowPosition) {
+			this.logger.log('Using last window position:', this.plugin.settings.lastWindowPosition);
+			return { ...this.plugin.settings.lastWindowPosition };
 		}
 
-		return { x, y };
+		// Other displays' work areas don't start at 0,0
+		const { workArea } = this.getTargetDisplay();
+		if (this.plugin.settings.windowPosition === 'left') {
+			return { x: workArea.x, y: workArea.y };
+		}
+		if (this.plugin.settings.windowPosition === 'right') {
+			return { x: workArea.x + workArea.width - width, y: workArea.y };
+		}
+		// Center, also used for the last position before the window was ever moved
+		return {
+			x: workArea.x + Math.floor((workArea.width - width) / 2),
+			y: workArea.y + Math.floor((workArea.height - height) / 2)
+		};
+	}
+
+	/**
+	 * The display the PopNote window is placed on, chosen by the display setting.
+	 */
+	private getTargetDisplay(): any {
+		const { screen, BrowserWindow } = getRemote();
+		const setting = this.plugin.settings.windowDisplay;
+
+		if (setting === 'cursor') {
+			return screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+		}
+
+		if (setting === 'focused') {
+			// When another app is focused, use the display of the main Obsidian window
+			const focusedWindow = BrowserWindow.getFocusedWindow();
+			const referenceWindow = focusedWindow && focusedWindow !== this.main.window
+				? focusedWindow
+				: getRemote().getCurrentWindow();
+			if (referenceWindow && !referenceWindow.isDestroyed()) {
+				return screen.getDisplayMatching(referenceWindow.getBounds());
+			}
+		}
+
+		if (typeof setting === 'number') {
+			const display = screen.getAllDisplays().find((d: any) => d.id === setting);
+			if (display) {
+				return display;
+			}
+			this.logger.warn(`Display ${setting} is not connected, using the primary display`);
+		}
+
+		return screen.getPrimaryDisplay();
+	}
+
+	private applyWindowLevel(window: any, windowLevel: WindowLevel) {
+		if (windowLevel === 'normal') {
+			return;
+		}
+
+		try {
+			// Set always on top for floating and screen-saver levels
+			window.setAlwaysOnTop(true, windowLevel);
+			
+			// For screen-saver level on macOS, also set visible on all workspaces
+			if (Platform.isMacOS && windowLevel === 'screen-saver' && this.plugin.settings.visibleOnAllWorkspaces) {
+				window.setVisibleOnAllWorkspaces(true, { 
+					visibleOnFullScreen: true,
+					skipTransformProcessType: true
+				});
+			}
+		} catch (error) {
+			this.logger.error('Failed to set window level settings:', error);
+		}
 	}
 
 	private setupWindowEventHandlers(window: any) {
@@ -377,9 +601,18 @@ export class WindowManager {
 			}
 			
 			// Save cursor position before hiding
-			this.saveCursorPositionFromLeaf();
+			this.saveCursorPosition(this.main);
+			this.saveWindowState(false);
+
+			if (this.main.currentFile) {
+				this.plugin.handlePopNoteLeave(this.main.currentFile);
+			}
 		});
 
+		// Keep the geometry for session restore up to date
+		window.on('resize', () => this.saveWindowState());
+		window.on('move', () => this.saveWindowState());
+
 		// Track window resize
 		if (this.plugin.settings.windowSizeMode === 'remember') {
 			window.on('resize', () => {
@@ -417,30 +650,51 @@ export class WindowManager {
 		// Handle window closed (destroyed)
 		window.on('closed', () => {
 			this.logger.log('PopNote window closed (destroyed)');
-			this.popNoteWindow = null;
-			this.popNoteLeaf = null;
-			this.currentFile = null;
+			this.clearEntry(this.main);
 		});
+
+		this.saveWindowState();
 	}
 
+	/**
+	 * Write pending editor changes of a note to disk. Obsidian saves typed text
+	 * with a delay, so read the file only after this.
+	 */
+	async saveEditors(file: TFile) {
+		for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+			const view = leaf.view;
+			if (view instanceof MarkdownView && view.file?.path === file.path) {
+				await view.save();
+			}
+		}
+
+		const popNoteWindow = this.main.window;
+		if (popNoteWindow instanceof PopNoteModal && popNoteWindow.getFile().path === file.path) {
+			await popNoteWindow.saveContent();
+		}
+	}
 
 	saveCursorPositionFromLeaf() {
-		if (!this.popNoteLeaf || !this.currentFile) return;
+		this.saveCursorPosition(this.main);
+	}
 
-		const view = this.popNoteLeaf.view;
+	private saveCursorPosition(entry: PopNoteWindowEntry) {
+		if (!entry.leaf || !entry.currentFile) return;
+
+		const view = entry.leaf.view;
 		if (view instanceof MarkdownView && view.editor) {
 			const cursor = view.editor.getCursor();
-			this.fileTracker.saveCursorPosition(this.currentFile.path, cursor);
+			this.fileTracker.saveCursorPosition(entry.currentFile.path, cursor);
 		}
 	}
 
-	private restoreCursorPosition(file: TFile) {
-		if (!this.popNoteLeaf) return;
+	private restoreCursorPosition(entry: PopNoteWindowEntry, file: TFile) {
+		if (!entry.leaf) return;
 
 		const savedPosition = this.fileTracker.getCursorPosition(file.path);
 		if (!savedPosition) return;
 
-		const view = this.popNoteLeaf.view;
+		const view = entry.leaf.view;
 		if (view instanceof MarkdownView && view.editor) {
 			this.logger.log('Restoring cursor position for', file.path, ':', savedPosition);
 			view.editor.setCursor(savedPosition);
@@ -450,48 +704,217 @@ export class WindowManager {
 
 	hidePopNoteWindow() {
 		try {
-			if (this.popNoteWindow && !this.popNoteWindow.isDestroyed()) {
-				this.popNoteWindow.hide();
+			if (this.main.window && !this.main.window.isDestroyed()) {
+				this.main.window.hide();
+				this.saveWindowState(false);
 			}
 		} catch (error) {
 			this.logger.error('Error hiding window:', error);
 			// Window might have been destroyed
-			this.popNoteWindow = null;
+			this.main.window = null;
 		}
 	}
 
 	destroyPopNoteWindow() {
-		try {
-			if (this.popNoteWindow && !this.popNoteWindow.isDestroyed()) {
-				this.popNoteWindow.destroy();
+		for (const [id, entry] of this.windows) {
+			try {
+				if (entry.window && !entry.window.isDestroyed()) {
+					if (entry.sticky) {
+						// Sticky windows stay registered in the settings so they are restored next time
+						entry.window.removeAllListeners();
+					}
+					entry.window.destroy();
+				}
+			} catch (error) {
+				this.logger.error('Error destroying window:', error);
+			} finally {
+				// Always clear references
+				if (id === MAIN_WINDOW_ID) {
+					this.clearEntry(entry);
+				} else {
+					this.windows.delete(id);
+				}
 			}
-		} catch (error) {
-			this.logger.error('Error destroying window:', error);
-		} finally {
-			// Always clear references
-			this.popNoteWindow = null;
-			this.popNoteLeaf = null;
-			this.currentFile = null;
 		}
 	}
 
+	private clearEntry(entry: PopNoteWindowEntry) {
+		entry.window = null;
+		entry.leaf = null;
+		entry.currentFile = null;
+	}
+
 	getCurrentFile(): TFile | null {
-		return this.currentFile;
+		return this.main.currentFile;
 	}
 
 	getPopNoteWindow(): any {
-		return this.popNoteWindow;
+		return this.main.window;
 	}
 
 	getPopNoteLeaf(): WorkspaceLeaf | null {
-		return this.popNoteLeaf;
+		return this.main.leaf;
+	}
+
+	/**
+	 * Open a note in its own small always-on-top window. If the note already
+	 * has a sticky window, that window is focused instead.
+	 */
+	async openStickyWindow(file: TFile, state?: StickyNoteState) {
+		if (!hasNativeWindows()) {
+			new Notice('PopNote: Sticky notes are not available on this platform');
+			return;
+		}
+
+		const existing = this.findStickyEntry(file);
+		if (existing) {
+			// The window may still be opening
+			existing.window?.show();
+			existing.window?.focus();
+			return;
+		}
+
+		this.logger.log('Opening sticky window for:', file.path);
+		// Register the file right away, so a second call while the window opens finds this entry
+		const [id, entry] = this.addStickyEntry(file);
+
+		const bounds: WindowBounds = {
+			width: state?.width ?? this.plugin.settings.stickyWindowWidth,
+			height: state?.height ?? this.plugin.settings.stickyWindowHeight,
+			x: state?.x,
+			y: state?.y
+		};
+		await this.createWindow(entry, file, bounds, 'floating');
+		if (!entry.window) {
+			this.windows.delete(id);
+			return;
+		}
+
+		if (!state) {
+			this.plugin.settings.stickyNotes.push({ path: file.path, width: bounds.width, height: bounds.height });
+			await this.plugin.saveSettings();
+		}
+	}
+
+	private addStickyEntry(file: TFile): [string, PopNoteWindowEntry] {
+		const entry: PopNoteWindowEntry = { window: null, leaf: null, currentFile: file, sticky: true };
+		const id = `sticky-${Date.now()}-${this.windows.size}`;
+		this.windows.set(id, entry);
+		return [id, entry];
+	}
+
+	/**
+	 * Reattach the sticky windows that Obsidian restored with the workspace, and
+	 * reopen the ones it did not restore.
+	 */
+	async restoreStickyWindows() {
+		if (!hasNativeWindows()) {
+			return;
+		}
+
+		const states = this.plugin.settings.stickyNotes;
+		for (const state of [...states]) {
+			const file = this.app.vault.getAbstractFileByPath(state.path);
+			if (!(file instanceof TFile)) {
+				this.logger.log('Sticky note no longer exists:', state.path);
+				states.splice(states.indexOf(state), 1);
+				continue;
+			}
+
+			const leaf = this.findRestoredLeaf(file, false);
+			if (!leaf) {
+				await this.openStickyWindow(file, state);
+				continue;
+			}
+
+			const [id, entry] = this.addStickyEntry(file);
+			await this.reattachWindow(entry, leaf, file, 'floating', true);
+			if (!entry.window) {
+				this.windows.delete(id);
+			}
+		}
+		await this.plugin.saveSettings();
+	}
+
+	isStickyWindowOpen(file: TFile): boolean {
+		return !!this.findStickyEntry(file);
+	}
+
+	closeStickyWindow(file: TFile) {
+		const entry = this.findStickyEntry(file);
+		if (entry?.window && !entry.window.isDestroyed()) {
+			entry.window.close();
+		}
+	}
+
+	closeAllStickyWindows() {
+		for (const entry of this.windows.values()) {
+			if (entry.sticky && entry.window && !entry.window.isDestroyed()) {
+				entry.window.close();
+			}
+		}
+	}
+
+	private findStickyEntry(file: TFile): PopNoteWindowEntry | undefined {
+		for (const entry of this.windows.values()) {
+			if (entry.sticky && entry.currentFile?.path === file.path && !entry.window?.isDestroyed()) {
+				return entry;
+			}
+		}
+		return undefined;
+	}
+
+	private getStickyState(entry: PopNoteWindowEntry): StickyNoteState | undefined {
+		return this.plugin.settings.stickyNotes.find(state => state.path === entry.currentFile?.path);
+	}
+
+	private setupStickyWindowEventHandlers(entry: PopNoteWindowEntry) {
+		const window = entry.window;
+
+		// Closing a sticky window really closes it, and it is not restored anymore
+		window.on('close', () => {
+			this.saveCursorPosition(entry);
+			const state = this.getStickyState(entry);
+			if (state) {
+				this.plugin.settings.stickyNotes.splice(this.plugin.settings.stickyNotes.indexOf(state), 1);
+			}
+			this.plugin.saveSettings();
+		});
+
+		// Remember the geometry of each sticky window
+		const saveBounds = () => {
+			try {
+				const state = this.getStickyState(entry);
+				if (state && !window.isDestroyed()) {
+					const [x, y] = window.getPosition();
+					const [width, height] = window.getSize();
+					Object.assign(state, { x, y, width, height });
+					this.plugin.saveSettings();
+				}
+			} catch (error) {
+				this.logger.error('Error saving sticky window bounds:', error);
+			}
+		};
+		window.on('resize', saveBounds);
+		window.on('move', saveBounds);
+
+		// The editor loses its cursor when focus moves to another window
+		window.on('blur', () => this.saveCursorPosition(entry));
+
+		window.on('closed', () => {
+			for (const [id, registered] of this.windows) {
+				if (registered === entry) {
+					this.windows.delete(id);
+				}
+			}
+		});
 	}
 
 	closeAllPopNoteWindowsForVault() {
 		this.logger.log('closeAllPopNoteWindowsForVault called - closing all PopNote windows for this vault...');
 		
 		try {
-			const allWindows = BrowserWindow.getAllWindows();
+			const allWindows = getRemote().BrowserWindow.getAllWindows();
 			const vaultName = this.app.vault.getName();
 			
 			this.logger.log(`Looking for PopNote windows for vault: ${vaultName}`);
@@ -505,8 +928,11 @@ export class WindowManager {
 						this.logger.log(`Found PopNote window for our vault! Window ID: ${window.id}, popNoteId: ${windowAny.popNoteId}`);
 						
 						// If this is our tracked window, clean it up properly
-						if (window === this.popNoteWindow) {
+						if (window === this.main.window) {
 							this.cleanupPopNoteWindows();
+						} else if (this.isStickyWindow(window)) {
+							// Keep sticky windows registered so they are restored on the next start
+							this.cleanupStickyWindow(window);
 						} else {
 							// For other PopNote windows from our vault, just close them
 							try {
@@ -528,26 +954,26 @@ export class WindowManager {
 		this.logger.log('cleanupPopNoteWindows called - cleaning up PopNote windows...');
 		
 		// Try to detach the leaf first if we have a reference
-		if (this.popNoteLeaf) {
+		if (this.main.leaf) {
 			try {
 				this.logger.log('Detaching PopNote leaf');
-				this.popNoteLeaf.detach();
-				this.popNoteLeaf = null;
+				this.main.leaf.detach();
+				this.main.leaf = null;
 			} catch (leafError) {
 				this.logger.log(`Error detaching leaf: ${leafError}`);
 			}
 		}
 		
 		// Close the main PopNote window if it exists
-		if (this.popNoteWindow && !this.popNoteWindow.isDestroyed()) {
-			this.logger.log(`Closing PopNote window, window ID: ${this.popNoteWindow.id}`);
+		if (this.main.window && !this.main.window.isDestroyed()) {
+			this.logger.log(`Closing PopNote window, window ID: ${this.main.window.id}`);
 			try {
 				// First hide the window
-				this.popNoteWindow.hide();
+				this.main.window.hide();
 				this.logger.log('PopNote window hidden');
 				
 				// Remove all listeners to prevent any interference
-				this.popNoteWindow.removeAllListeners();
+				this.main.window.removeAllListeners();
 				
 				// Try to close via Obsidian's workspace API first
 				try {
@@ -562,8 +988,8 @@ export class WindowManager {
 					// Search in all containers
 					const allContainers = [...containers, ...floatingContainers];
 					for (const container of allContainers) {
-						if (container.win === this.popNoteWindow || 
-							(container as any).containerEl?.win === this.popNoteWindow) {
+						if (container.win === this.main.window || 
+							(container as any).containerEl?.win === this.main.window) {
 							this.logger.log('Found workspace container, closing via Obsidian API');
 							if (typeof container.close === 'function') {
 								container.close();
@@ -579,7 +1005,7 @@ export class WindowManager {
 				
 				// Finally, try to close the window directly
 				try {
-					this.popNoteWindow.close();
+					this.main.window.close();
 					this.logger.log('PopNote window closed using close() method');
 				} catch (closeError) {
 					this.logger.error('Error closing PopNote window:', closeError);
@@ -590,10 +1016,33 @@ export class WindowManager {
 		}
 		
 		// Clear all references
-		this.popNoteWindow = null;
-		this.popNoteLeaf = null;
-		this.currentFile = null;
+		this.clearEntry(this.main);
 		
 		this.logger.log('PopNote window cleanup completed');
 	}
+
+	private isStickyWindow(window: any): boolean {
+		return Array.from(this.windows.values()).some(entry => entry.sticky && entry.window === window);
+	}
+
+	private cleanupStickyWindow(window: any) {
+		for (const [id, entry] of this.windows) {
+			if (entry.window !== window) {
+				continue;
+			}
+
+			this.saveCursorPosition(entry);
+			try {
+				window.removeAllListeners();
+				// Detach first so Obsidian doesn't restore it as a regular popout
+				entry.leaf?.detach();
+				if (!window.isDestroyed()) {
+					window.close();
+				}
+			} catch (error) {
+				this.logger.error('Error closing sticky window:', error);
+			}
+			this.windows.delete(id);
+		}
+	}
 }
\ No newline at end of file
@@ -1,11 +1,19 @@
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, Platform, PluginSettingTab, Setting, Notice } from 'obsidian';
 import type PopNotePlugin from '../core/PopNotePlugin';
 import { FolderSuggest } from '../ui/FolderSuggest';
 import { FileSuggest } from '../ui/FileSuggest';
+import { BufferPolicy, BufferTime, PopNoteProfile } from '../types';
+import { getRemote, hasNativeWindows } from '../utils/platform';
+
+// Shown where a setting needs Electron windows or global hotkeys
+const NO_NATIVE_WINDOWS_DESC = 'Not available on this platform: PopNote cannot access Electron here, so pop notes open in an Obsidian popout (or a modal on mobile). Use the PopNote commands with Obsidian hotkeys instead.';
+
+// Shown while a folder pattern has no fixed first folder
+const INVALID_FOLDER_DESC = 'The first folder cannot contain date variables, use e.g. PopNotes/{{year}} instead of {{year}}/PopNotes. The last valid folder is kept.';
 
 export class PopNoteSettingTab extends PluginSettingTab {
 	plugin: PopNotePlugin;
-	private debounceTimer: NodeJS.Timeout | null = null;
+	private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
 
 	constructor(app: App, plugin: PopNotePlugin) {
 		super(app, plugin);
@@ -13,11 +21,9 @@ export class PopNoteSettingTab extends PluginSettingTab {
 	}
 
 	hide(): void {
-		// Clear any pending debounce timer
-		if (this.debounceTimer) {
-			clearTimeout(this.debounceTimer);
-			this.debounceTimer = null;
-		}
+		// Clear any pending debounce timers
+		this.debounceTimers.forEach(timer => clearTimeout(timer));
+		this.debounceTimers.clear();
 	}
 
 	display(): void {
@@ -32,26 +38,29 @@ export class PopNoteSettingTab extends PluginSettingTab {
 		});
 
 		// Pop notes folder
-		new Setting(containerEl)
+		const folderSetting = new Setting(containerEl)
 			.setName('PopNote folder')
-			.setDesc('Folder where PopNotes will be stored')
-			.addText(text => {
-				new FolderSuggest(this.app, text.inputEl);
-				text
-					.setPlaceholder('PopNotes')
-					.setValue(this.plugin.settings.popNotesFolder)
-					.onChange(async (value) => {
-						// Trim and remove trailing slash
-						value = value.trim().replace(/\/$/, '');
-						this.plugin.settings.popNotesFolder = value;
-						await this.plugin.saveSettings();
-					});
-			});
+			.setDesc('Folder where PopNotes will be stored. Date variables create subfolders, e.g. PopNotes/{{year}}/{{month}}');
+		folderSetting.addText(text => {
+			new FolderSuggest(this.app, text.inputEl);
+			text
+				.setPlaceholder('PopNotes')
+				.setValue(this.plugin.settings.popNotesFolder)
+				.onChange(async (value) => {
+					// Trim and remove trailing slash
+					value = value.trim().replace(/\/$/, '');
+					if (!this.checkFolderPattern(folderSetting, text.inputEl, value)) {
+						return;
+					}
+					this.plugin.settings.popNotesFolder = value;
+					await this.plugin.saveSettings();
+				});
+		});
 
 		// Note naming pattern
 		new Setting(containerEl)
 			.setName('Note name pattern')
-			.setDesc('Pattern for new note names. Available variables: {{date}}, {{time}}, {{timestamp}}, {{year}}, {{month}}, {{day}}, {{hour}}, {{minute}}, {{second}}')
+			.setDesc('Pattern for new note names. Available variables: {{date}}, {{time}}, {{timestamp}}, {{year}}, {{month}}, {{day}}, {{hour}}, {{minute}}, {{second}}. Custom formats and offsets: {{date:YYYY-MM-DD ddd}}, {{date+1d:YYYY-MM-DD}}. Use / to create subfolders.')
 			.addText(text => text
 				.setPlaceholder('PopNote {{date}} {{time}}')
 				.setValue(this.plugin.settings.noteNamePattern)
@@ -60,10 +69,75 @@ export class PopNoteSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Name collision strategy
+		new Setting(containerEl)
+			.setName('Existing note names')
+			.setDesc('What to do when the note name pattern resolves to a note that already exists')
+			.addDropdown(dropdown => dropdown
+				.addOption('counter', 'Append a counter')
+				.addOption('seconds', 'Append seconds')
+				.addOption('milliseconds', 'Append seconds and milliseconds')
+				.addOption('open-existing', 'Open the existing note')
+				.setValue(this.plugin.settings.collisionStrategy)
+				.onChange(async (value) => {
+					this.plugin.settings.collisionStrategy = value as 'counter' | 'seconds' | 'milliseconds' | 'open-existing';
+					await this.plugin.saveSettings();
+				}));
+
+		// Auto title
+		new Setting(containerEl)
+			.setName('Auto title')
+			.setDesc('Rename pop notes from their content when the window is hidden or another note is opened')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off - Keep the generated name')
+				.addOption('heading', 'First heading')
+				.addOption('first-line', 'First non-empty line')
+				.setValue(this.plugin.settings.autoTitleMode)
+				.onChange(async (value) => {
+					this.plugin.settings.autoTitleMode = value as 'off' | 'heading' | 'first-line';
+					await this.plugin.saveSettings();
+				}));
+
+		// Discard empty notes
+		new Setting(containerEl)
+			.setName('Discard empty notes')
+			.setDesc('Delete PopNotes that are empty or unchanged from their template when the window is hidden or you navigate away from them. Pinned notes are kept.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.discardEmptyNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.discardEmptyNotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Frontmatter
+		new Setting(containerEl)
+			.setName('Add frontmatter')
+			.setDesc('Write created, popnote: true, profile, source, hostname and tags properties to new PopNotes, so they can be found with Dataview and Search wherever they are moved')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.frontmatterStamping)
+				.onChange(async (value) => {
+					this.plugin.settings.frontmatterStamping = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Default tags')
+			.setDesc('Comma-separated tags added to the frontmatter of new PopNotes')
+			.addText(text => text
+				.setPlaceholder('inbox, popnote')
+				.setValue(this.plugin.settings.frontmatterTags.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.frontmatterTags = value
+						.split(',')
+						.map(tag => tag.trim().replace(/^#/, ''))
+						.filter(tag => tag);
+					await this.plugin.saveSettings();
+				}));
+
 		// Template file
 		new Setting(containerEl)
 			.setName('Template file')
-			.setDesc('Optional template file for new PopNotes. Available variables: {{title}}, {{date}}, {{time}}, {{timestamp}}, {{year}}, {{month}}, {{day}}, {{hour}}, {{minute}}, {{second}}')
+			.setDesc('Optional template file for new PopNotes. Available variables: {{title}}, {{date}}, {{time}}, {{timestamp}}, {{year}}, {{month}}, {{day}}, {{hour}}, {{minute}}, {{second}}, {{clipboard}}, with optional formats and offsets like {{date-1d:dddd}}')
 			.addText(text => {
 				new FileSuggest(this.app, text.inputEl);
 				text
@@ -75,63 +149,229 @@ export class PopNoteSettingTab extends PluginSettingTab {
 					});
 			});
 
+		// Template engine
+		new Setting(containerEl)
+			.setName('Template engine')
+			.setDesc('Which engine processes template files. Falls back to the built-in engine when the selected plugin is not enabled.')
+			.addDropdown(dropdown => dropdown
+				.addOption('auto', 'Auto - Templater, then core Templates, then built-in')
+				.addOption('builtin', 'Built-in')
+				.addOption('templater', 'Templater')
+				.addOption('core', 'Core Templates plugin')
+				.setValue(this.plugin.settings.templateEngine)
+				.onChange(async (value) => {
+					this.plugin.settings.templateEngine = value as 'auto' | 'builtin' | 'templater' | 'core';
+					await this.plugin.saveSettings();
+				}));
+
 		// Buffer time
+		this.addBufferTimeSetting(containerEl, this.plugin.settings);
+
+		// Sort order
 		new Setting(containerEl)
-			.setName('Buffer time')
-			.setDesc('Time period for reusing the last created note')
-			.addDropdown(dropdown => {
-				dropdown
-					.addOption('none', 'Always create new note')
-					.addOption('permanent', 'Always reuse last note')
-					.addOption('custom', 'Custom time (minutes)');
+			.setName('Sort order')
+			.setDesc('How to sort notes in navigation and picker')
+			.addDropdown(dropdown => dropdown
+				.addOption('created', 'Creation time')
+				.addOption('modified', 'Last modified time')
+				.setValue(this.plugin.settings.sortOrder)
+				.onChange(async (value) => {
+					this.plugin.settings.sortOrder = value as 'created' | 'modified';
+					await this.plugin.saveSettings();
+				}));
 
-				if (this.plugin.settings.bufferTime === 'none' || this.plugin.settings.bufferTime === 'permanent') {
-					dropdown.setValue(this.plugin.settings.bufferTime);
-				} else {
-					dropdown.setValue('custom');
-				}
+		// Capture mode
+		containerEl.createEl('h3', { text: 'Capture Mode' });
 
-				dropdown.onChange(async (value) => {
-					if (value === 'none' || value === 'permanent') {
-						this.plugin.settings.bufferTime = value as 'none' | 'permanent';
+		new Setting(containerEl)
+			.setName('Capture mode')
+			.setDesc('Create a new note per capture, or use a quick capture window whose text is appended to a target note when the window is hidden')
+			.addDropdown(dropdown => dropdown
+				.addOption('note', 'New note')
+				.addOption('append', 'Append to a note')
+				.setValue(this.plugin.settings.captureMode)
+				.onChange(async (value) => {
+					this.plugin.settings.captureMode = value as 'note' | 'append';
+					await this.plugin.saveSettings();
+					// Show or hide the append settings
+					this.display();
+				}));
+
+		if (this.plugin.settings.captureMode === 'append') {
+			new Setting(containerEl)
+				.setName('Append target')
+				.setDesc('Where captures are appended')
+				.addDropdown(dropdown => dropdown
+					.addOption('inbox', 'Inbox note')
+					.addOption('daily', 'Today\'s daily note')
+					.setValue(this.plugin.settings.appendTarget)
+					.onChange(async (value) => {
+						this.plugin.settings.appendTarget = value as 'inbox' | 'daily';
 						await this.plugin.saveSettings();
-						this.display(); // Refresh to show/hide custom time input
-					} else {
-						this.plugin.settings.bufferTime = 5; // Default to 5 minutes
+						this.display();
+					}));
+
+			if (this.plugin.settings.appendTarget === 'inbox') {
+				new Setting(containerEl)
+					.setName('Inbox note')
+					.setDesc('Note that captures are appended to. It is created if it does not exist.')
+					.addText(text => {
+						new FileSuggest(this.app, text.inputEl);
+						text
+							.setPlaceholder('Inbox.md')
+							.setValue(this.plugin.settings.appendInboxNote)
+							.onChange(async (value) => {
+								this.plugin.settings.appendInboxNote = value;
+								await this.plugin.saveSettings();
+							});
+					});
+			}
+
+			new Setting(containerEl)
+				.setName('Heading')
+				.setDesc('Optional heading in the target note to append under. It is added if missing. Leave empty to append to the end of the note.')
+				.addText(text => text
+					.setPlaceholder('Captures')
+					.setValue(this.plugin.settings.appendHeading)
+					.onChange(async (value) => {
+						this.plugin.settings.appendHeading = value;
 						await this.plugin.saveSettings();
-						this.display(); // Refresh to show/hide custom time input
-					}
-				});
-			});
+					}));
 
-		// Custom buffer time input
-		if (typeof this.plugin.settings.bufferTime === 'number') {
 			new Setting(containerEl)
-				.setName('Buffer time (minutes)')
-				.setDesc('Number of minutes to reuse the last created note')
+				.setName('Timestamp entries')
+				.setDesc('Add each capture as a bullet starting with a timestamp')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.appendTimestamp)
+					.onChange(async (value) => {
+						this.plugin.settings.appendTimestamp = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Timestamp format')
+				.setDesc('Moment.js format of the timestamp')
 				.addText(text => text
-					.setPlaceholder('5')
-					.setValue(this.plugin.settings.bufferTime.toString())
+					.setPlaceholder('YYYY-MM-DD HH:mm')
+					.setValue(this.plugin.settings.appendTimestampFormat)
 					.onChange(async (value) => {
-						const minutes = parseInt(value);
-						if (!isNaN(minutes) && minutes > 0) {
-							this.plugin.settings.bufferTime = minutes;
+						this.plugin.settings.appendTimestampFormat = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// Archive
+		containerEl.createEl('h3', { text: 'Archive' });
+
+		new Setting(containerEl)
+			.setName('Archive old notes')
+			.setDesc('Regularly move PopNotes that have not been modified for a while out of the way. Pinned notes are kept.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.archiveEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.archiveEnabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.archiveEnabled) {
+			new Setting(containerEl)
+				.setName('Archive after (days)')
+				.setDesc('Archive notes not modified for this many days')
+				.addText(text => text
+					.setPlaceholder('30')
+					.setValue(this.plugin.settings.archiveAfterDays.toString())
+					.onChange(async (value) => {
+						const days = parseInt(value);
+						if (!isNaN(days) && days > 0) {
+							this.plugin.settings.archiveAfterDays = days;
 							await this.plugin.saveSettings();
 						}
 					}));
+
+			new Setting(containerEl)
+				.setName('Archive to')
+				.setDesc('Move old notes to an archive folder, or to Obsidian\'s trash (.trash in your vault)')
+				.addDropdown(dropdown => dropdown
+					.addOption('folder', 'Archive folder')
+					.addOption('trash', 'Obsidian trash')
+					.setValue(this.plugin.settings.archiveMode)
+					.onChange(async (value) => {
+						this.plugin.settings.archiveMode = value as 'folder' | 'trash';
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			if (this.plugin.settings.archiveMode === 'folder') {
+				new Setting(containerEl)
+					.setName('Archive folder')
+					.setDesc('Folder for archived notes. Archived notes are hidden from navigation and the picker unless archived notes are included.')
+					.addText(text => {
+						new FolderSuggest(this.app, text.inputEl);
+						text
+							.setPlaceholder('PopNotes/Archive')
+							.setValue(this.plugin.settings.archiveFolder)
+							.onChange(async (value) => {
+								this.plugin.settings.archiveFolder = value.trim().replace(/\/$/, '');
+								await this.plugin.saveSettings();
+							});
+					});
+			}
 		}
 
-		// Sort order
+		// Digests
+		containerEl.createEl('h3', { text: 'Digests' });
+		containerEl.createEl('p', {
+			text: 'Digest notes embed all PopNotes of a day or week, grouped by day. Create them with the digest commands.',
+			cls: 'setting-item-description'
+		});
+
 		new Setting(containerEl)
-			.setName('Sort order')
-			.setDesc('How to sort notes in navigation and picker')
+			.setName('Digest folder')
+			.setDesc('Folder for digest notes. Digests are not listed as PopNotes.')
+			.addText(text => {
+				new FolderSuggest(this.app, text.inputEl);
+				text
+					.setPlaceholder('PopNotes/Digests')
+					.setValue(this.plugin.settings.digestFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.digestFolder = value.trim().replace(/\/$/, '');
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Automatic digest')
+			.setDesc('Keep the digest of the current and previous day or week up to date automatically')
 			.addDropdown(dropdown => dropdown
-				.addOption('created', 'Creation time')
-				.addOption('modified', 'Last modified time')
-				.setValue(this.plugin.settings.sortOrder)
+				.addOption('off', 'Off')
+				.addOption('day', 'Daily digest')
+				.addOption('week', 'Weekly digest')
+				.setValue(this.plugin.settings.digestAutoPeriod)
 				.onChange(async (value) => {
-					this.plugin.settings.sortOrder = value as 'created' | 'modified';
+					this.plugin.settings.digestAutoPeriod = value as 'off' | 'day' | 'week';
+					await this.plugin.saveSettings();
+				}));
+
+		// Profiles
+		containerEl.createEl('h3', { text: 'Profiles' });
+		containerEl.createEl('p', {
+			text: 'Profiles are named note types (e.g. meetings, todos) with their own folder, template, naming and buffer time. The settings above define the default profile.',
+			cls: 'setting-item-description'
+		});
+
+		this.plugin.settings.profiles.forEach(profile => {
+			this.addProfileSettings(containerEl, profile);
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add profile')
+				.setCta()
+				.onClick(async () => {
+					this.plugin.getProfileManager().createProfile();
 					await this.plugin.saveSettings();
+					this.display();
 				}));
 
 		// Window settings
@@ -212,6 +452,41 @@ export class PopNoteSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Display setting for multi-monitor setups
+		const displaySetting = new Setting(containerEl)
+			.setName('Display')
+			.setDesc('Which display the center, left and right positions refer to')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('primary', 'Primary display')
+					.addOption('cursor', 'Display under the mouse cursor')
+					.addOption('focused', 'Display of the focused Obsidian window');
+
+				const displays: any[] = getRemote()?.screen?.getAllDisplays() || [];
+				displays.forEach((display, index) => {
+					const { width, height } = display.size;
+					dropdown.addOption(String(display.id), `Display ${index + 1} (${width}x${height})`);
+				});
+
+				// Keep a chosen display that is currently disconnected selectable
+				const current = this.plugin.settings.windowDisplay;
+				if (typeof current === 'number' && !displays.some(display => display.id === current)) {
+					dropdown.addOption(String(current), 'Disconnected display');
+				}
+
+				dropdown
+					.setValue(String(current))
+					.onChange(async (value) => {
+						this.plugin.settings.windowDisplay = value === 'primary' || value === 'cursor' || value === 'focused'
+							? value
+							: parseInt(value);
+						await this.plugin.saveSettings();
+					});
+			});
+		if (!hasNativeWindows()) {
+			displaySetting.setDisabled(true);
+		}
+
 		// Cursor position setting
 		new Setting(containerEl)
 			.setName('Cursor position')
@@ -232,6 +507,9 @@ export class PopNoteSettingTab extends PluginSettingTab {
 			text: 'Configure how PopNote windows interact with other windows.',
 			cls: 'setting-item-description'
 		});
+		if (!hasNativeWindows()) {
+			containerEl.createEl('p', { text: NO_NATIVE_WINDOWS_DESC, cls: 'mod-warning' });
+		}
 
 		// Window level setting
 		const windowLevelSetting = new Setting(containerEl)
@@ -259,7 +537,7 @@ export class PopNoteSettingTab extends PluginSettingTab {
 		// Fullscreen description
 		windowLevelDesc.createEl('strong', { text: '• Fullscreen: ' });
 		windowLevelDesc.createSpan({ text: 'Appears above fullscreen apps. ' });
-		if (process.platform === 'darwin') {
+		if (Platform.isMacOS) {
 			windowLevelDesc.createSpan({ text: 'May affect dock behavior.', cls: 'mod-warning' });
 		}
 		windowLevelDesc.createEl('br');
@@ -290,7 +568,7 @@ export class PopNoteSettingTab extends PluginSettingTab {
 			const windowLevel = this.plugin.settings.windowLevel;
 			
 			// Show visibleOnAllWorkspaces only on macOS and when using screen-saver level
-			if (process.platform === 'darwin' && windowLevel === 'screen-saver') {
+			if (Platform.isMacOS && windowLevel === 'screen-saver') {
 				visibleOnAllWorkspacesSetting.settingEl.style.display = 'flex';
 			} else {
 				visibleOnAllWorkspacesSetting.settingEl.style.display = 'none';
@@ -300,80 +578,461 @@ export class PopNoteSettingTab extends PluginSettingTab {
 		// Set initial visibility
 		updateFloatingSettingsVisibility();
 
-		// Global hotkey section
-		containerEl.createEl('h3', { text: 'Global Hotkey' });
+		if (!hasNativeWindows()) {
+			windowLevelSetting.setDisabled(true);
+			visibleOnAllWorkspacesSetting.setDisabled(true);
+		}
+
+		// Sticky notes section
+		containerEl.createEl('h3', { text: 'Sticky Notes' });
 		containerEl.createEl('p', {
-			text: 'Set up a system-wide hotkey that works even when Obsidian is not focused.',
+			text: 'Sticky notes open a note in its own small always-on-top window. Use the "Open current note as sticky note" and "Open pinned PopNotes as sticky notes" commands. Open sticky notes are restored when Obsidian starts.',
 			cls: 'setting-item-description'
 		});
 
-		// Global hotkey setting with improved UI
-		const globalHotkeySetting = new Setting(containerEl)
-			.setName('Create/open PopNote')
-			.setDesc('Configure the global hotkey to create or open a PopNote from anywhere.');
-		
-		// Create container that spans the full width below the setting
-		const hotkeyFullContainer = containerEl.createDiv({ cls: 'popnote-hotkey-full-container' });
-		
-		// Current hotkey display (at the top)
-		const currentHotkeyContainer = hotkeyFullContainer.createDiv({ cls: 'popnote-current-hotkey-container' });
-		currentHotkeyContainer.createEl('span', { text: 'Current: ', cls: 'popnote-label' });
-		const currentHotkeyDisplay = currentHotkeyContainer.createEl('span', { cls: 'popnote-current-hotkey' });
-		
-		// Create modifiers container
-		const modifiersContainer = hotkeyFullContainer.createDiv({ cls: 'popnote-modifiers-container' });
-		modifiersContainer.createEl('span', { text: 'Modifiers: ', cls: 'popnote-label' });
-		
-		// Platform-specific modifiers
-		const isMac = process.platform === 'darwin';
-		const modifiers = isMac 
-			? [
-				{ value: 'Cmd', label: '⌘ Cmd' },
-				{ value: 'Ctrl', label: '⌃ Ctrl' },
-				{ value: 'Alt', label: '⌥ Option' },
-				{ value: 'Shift', label: '⇧ Shift' }
-			]
-			: [
-				{ value: 'Ctrl', label: 'Ctrl' },
-				{ value: 'Alt', label: 'Alt' },
-				{ value: 'Shift', label: 'Shift' },
-				{ value: 'Super', label: 'Super/Win' }
-			];
-		
-		// Keep track of selected modifiers
-		const selectedModifiers: Set<string> = new Set();
-		
-		// Parse current hotkey to set initial state
-		const currentHotkey = this.plugin.settings.createNoteHotkey;
-		let currentKey = '';
-		if (currentHotkey) {
-			const parts = currentHotkey.split('+');
-			currentKey = parts[parts.length - 1];
-			parts.slice(0, -1).forEach(mod => {
-				// Handle CmdOrCtrl
-				if (mod === 'CmdOrCtrl') {
-					selectedModifiers.add(isMac ? 'Cmd' : 'Ctrl');
-				} else if (mod === 'Option' && isMac) {
-					// Handle Option on macOS (stored as Alt internally)
-					selectedModifiers.add('Alt');
-				} else {
-					selectedModifiers.add(mod);
-				}
-			});
+		new Setting(containerEl)
+			.setName('Sticky note width')
+			.setDesc('Width of new sticky note windows (pixels)')
+			.addText(text => text
+				.setPlaceholder('320')
+				.setValue(this.plugin.settings.stickyWindowWidth.toString())
+				.onChange(async (value) => {
+					const width = parseInt(value);
+					if (!isNaN(width) && width > 0) {
+						this.plugin.settings.stickyWindowWidth = width;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Sticky note height')
+			.setDesc('Height of new sticky note windows (pixels)')
+			.addText(text => text
+				.setPlaceholder('320')
+				.setValue(this.plugin.settings.stickyWindowHeight.toString())
+				.onChange(async (value) => {
+					const height = parseInt(value);
+					if (!isNaN(height) && height > 0) {
+						this.plugin.settings.stickyWindowHeight = height;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// Global hotkey section
+		containerEl.createEl('h3', { text: 'Global Hotkeys' });
+		containerEl.createEl('p', {
+			text: 'Set up system-wide hotkeys that work even when Obsidian is not focused. Leave the key empty to disable an action.',
+			cls: 'setting-item-description'
+		});
+		if (!hasNativeWindows()) {
+			containerEl.createEl('p', { text: NO_NATIVE_WINDOWS_DESC, cls: 'mod-warning' });
 		}
-		
-		// Create checkboxes for modifiers
-		const modifierCheckboxes: Record<string, HTMLInputElement> = {};
-		modifiers.forEach(mod => {
-			const label = modifiersContainer.createEl('label', { cls: 'popnote-modifier-label' });
-			const checkbox = label.createEl('input', { 
-				type: 'checkbox',
-				cls: 'popnote-modifier-checkbox'
-			});
-			checkbox.checked = selectedModifiers.has(mod.value);
-			modifierCheckboxes[mod.value] = checkbox;
-			label.createSpan({ text: mod.label });
-			
+
+		this.addGlobalHotkeySetting(
+			containerEl,
+			'create-or-open',
+			'Create/open PopNote',
+			'Create or open a PopNote, reusing the last note within the buffer time. Pressing again hides the window.',
+			() => this.plugin.settings.createNoteHotkey,
+			(hotkey) => { this.plugin.settings.createNoteHotkey = hotkey; }
+		);
+
+		this.addGlobalHotkeySetting(
+			containerEl,
+			'toggle-window',
+			'Toggle PopNote window',
+			'Show or hide the PopNote window without creating a new note.',
+			() => this.plugin.settings.toggleWindowHotkey,
+			(hotkey) => { this.plugin.settings.toggleWindowHotkey = hotkey; }
+		);
+
+		this.addGlobalHotkeySetting(
+			containerEl,
+			'new-note',
+			'Create new PopNote',
+			'Always create a new PopNote, ignoring the buffer time.',
+			() => this.plugin.settings.newNoteHotkey,
+			(hotkey) => { this.plugin.settings.newNoteHotkey = hotkey; }
+		);
+
+		this.addGlobalHotkeySetting(
+			containerEl,
+			'clipboard-note',
+			'Create PopNote from clipboard',
+			'Create a new PopNote containing the clipboard. Images are saved as attachments and embedded.',
+			() => this.plugin.settings.clipboardNoteHotkey,
+			(hotkey) => { this.plugin.settings.clipboardNoteHotkey = hotkey; }
+		);
+
+		this.addGlobalHotkeySetting(
+			containerEl,
+			'append-clipboard',
+			'Append clipboard to PopNote',
+			'Append the clipboard to the note in the PopNote window, or to the last created note.',
+			() => this.plugin.settings.appendClipboardHotkey,
+			(hotkey) => { this.plugin.settings.appendClipboardHotkey = hotkey; }
+		);
+
+		this.addGlobalHotkeySetting(
+			containerEl,
+			'open-picker',
+			'Open PopNote picker',
+			'Bring Obsidian to the front and open the PopNote picker.',
+			() => this.plugin.settings.openPickerHotkey,
+			(hotkey) => { this.plugin.settings.openPickerHotkey = hotkey; }
+		);
+
+		this.addGlobalHotkeySetting(
+			containerEl,
+			'previous-note',
+			'Previous PopNote',
+			'Open the previous (older) PopNote in the PopNote window.',
+			() => this.plugin.settings.previousNoteHotkey,
+			(hotkey) => { this.plugin.settings.previousNoteHotkey = hotkey; }
+		);
+
+		this.addGlobalHotkeySetting(
+			containerEl,
+			'next-note',
+			'Next PopNote',
+			'Open the next (newer) PopNote in the PopNote window.',
+			() => this.plugin.settings.nextNoteHotkey,
+			(hotkey) => { this.plugin.settings.nextNoteHotkey = hotkey; }
+		);
+
+		// Add CSS styles if not already added
+		if (!document.getElementById('popnote-settings-styles')) {
+			const style = document.createElement('style');
+			style.id = 'popnote-settings-styles';
+			style.textContent = `
+				.popnote-hotkey-full-container {
+					margin-top: 10px;
+					margin-bottom: 20px;
+					display: flex;
+					flex-direction: column;
+					gap: 15px;
+				}
+				.popnote-current-hotkey-container,
+				.popnote-modifiers-container,
+				.popnote-key-container {
+					display: flex;
+					align-items: center;
+					gap: 10px;
+					flex-wrap: wrap;
+				}
+				.popnote-modifier-label {
+					display: flex;
+					align-items: center;
+					gap: 5px;
+					margin: 0;
+				}
+				.popnote-modifier-checkbox {
+					margin: 0;
+				}
+				.popnote-key-input {
+					width: 100px;
+				}
+				.popnote-current-hotkey {
+					font-family: monospace;
+					color: var(--text-muted);
+					padding: 8px 12px;
+					background: var(--background-modifier-form-field);
+					border-radius: 4px;
+					white-space: nowrap;
+				}
+				.popnote-current-hotkey.mod-warning {
+					color: var(--text-error);
+					background: var(--background-modifier-error);
+				}
+				.popnote-label {
+					font-weight: 500;
+					min-width: 80px;
+					display: inline-block;
+				}
+				.popnote-file-suggestion-folder {
+					color: var(--text-muted);
+					font-size: 0.9em;
+				}
+				.popnote-key-help-link {
+					font-size: 0.85em;
+					margin-left: 10px;
+				}
+				.popnote-profile-container {
+					border: 1px solid var(--background-modifier-border);
+					border-radius: 6px;
+					padding: 0 12px;
+					margin-bottom: 12px;
+				}
+			`;
+			document.head.appendChild(style);
+		}
+
+		// Obsidian hotkeys info
+		containerEl.createEl('h3', { text: 'Obsidian Hotkeys' });
+		containerEl.createEl('p', {
+			text: 'Configure additional hotkeys within Obsidian for navigation and quick actions.',
+			cls: 'setting-item-description'
+		});
+		containerEl.createEl('p', {
+			text: 'Go to Obsidian Settings → Hotkeys and search for "PopNote" to find these commands:'
+		});
+
+		const hotkeyList = containerEl.createEl('ul');
+		hotkeyList.createEl('li', { text: 'PopNote: Navigate to previous PopNote' });
+		hotkeyList.createEl('li', { text: 'PopNote: Navigate to next PopNote' });
+		hotkeyList.createEl('li', { text: 'PopNote: Show PopNote picker' });
+		hotkeyList.createEl('li', { text: 'PopNote: Toggle PopNote window' });
+		hotkeyList.createEl('li', { text: 'PopNote: Create new PopNote' });
+		hotkeyList.createEl('li', { text: 'PopNote: Create PopNote from clipboard' });
+		hotkeyList.createEl('li', { text: 'PopNote: Append clipboard to current PopNote' });
+
+		// Picker keyboard shortcuts
+		containerEl.createEl('h3', { text: 'PopNote Picker Shortcuts' });
+		containerEl.createEl('p', {
+			text: 'Customize keyboard shortcuts for actions within the PopNote picker. Use Cmd (Mac) or Ctrl (Windows/Linux) instead of "Mod". Example: "Cmd+P" or "Ctrl+P"',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Pin/Unpin shortcut')
+			.setDesc('Keyboard shortcut to pin or unpin a note in the picker')
+			.addText(text => text
+				.setPlaceholder('Cmd+P or Ctrl+P')
+				.setValue(this.plugin.settings.pickerPinShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerPinShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Delete shortcut')
+			.setDesc('Keyboard shortcut to delete a note in the picker')
+			.addText(text => text
+				.setPlaceholder('Cmd+D or Ctrl+D')
+				.setValue(this.plugin.settings.pickerDeleteShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerDeleteShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Open in new tab shortcut')
+			.setDesc('Keyboard shortcut to open a note in a new tab')
+			.addText(text => text
+				.setPlaceholder('Cmd+Enter or Ctrl+Enter')
+				.setValue(this.plugin.settings.pickerOpenInNewTabShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerOpenInNewTabShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Profile filter shortcut')
+			.setDesc('Keyboard shortcut to cycle the picker between all notes and each profile')
+			.addText(text => text
+				.setPlaceholder('Cmd+F or Ctrl+F')
+				.setValue(this.plugin.settings.pickerProfileFilterShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerProfileFilterShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('File note shortcut')
+			.setDesc('Keyboard shortcut to move the selected note into a vault folder')
+			.addText(text => text
+				.setPlaceholder('Cmd+M or Ctrl+M')
+				.setValue(this.plugin.settings.pickerFileNoteShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerFileNoteShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Send to note shortcut')
+			.setDesc('Keyboard shortcut to send the selected note\'s text to another note')
+			.addText(text => text
+				.setPlaceholder('Cmd+S or Ctrl+S')
+				.setValue(this.plugin.settings.pickerSendToShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerSendToShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Select shortcut')
+			.setDesc('Keyboard shortcut to select or deselect a note for merging')
+			.addText(text => text
+				.setPlaceholder('Cmd+E or Ctrl+E')
+				.setValue(this.plugin.settings.pickerSelectShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerSelectShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Merge shortcut')
+			.setDesc('Keyboard shortcut to merge the selected notes into one note')
+			.addText(text => text
+				.setPlaceholder('Cmd+G or Ctrl+G')
+				.setValue(this.plugin.settings.pickerMergeShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerMergeShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('After merging')
+			.setDesc('What happens to the original notes after they were merged')
+			.addDropdown(dropdown => dropdown
+				.addOption('archive', 'Archive them')
+				.addOption('delete', 'Delete them')
+				.setValue(this.plugin.settings.mergeOriginals)
+				.onChange(async (value) => {
+					this.plugin.settings.mergeOriginals = value as 'delete' | 'archive';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include archived shortcut')
+			.setDesc('Keyboard shortcut to show or hide archived notes in the picker')
+			.addText(text => text
+				.setPlaceholder('Cmd+Shift+A or Ctrl+Shift+A')
+				.setValue(this.plugin.settings.pickerIncludeArchivedShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerIncludeArchivedShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Status filter shortcut')
+			.setDesc('Keyboard shortcut to cycle the picker between all, unprocessed and processed notes')
+			.addText(text => text
+				.setPlaceholder('Cmd+R or Ctrl+R')
+				.setValue(this.plugin.settings.pickerStatusFilterShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerStatusFilterShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Open in PopNote window shortcut')
+			.setDesc('Keyboard shortcut to open a note in the PopNote window')
+			.addText(text => text
+				.setPlaceholder('Alt+Enter')
+				.setValue(this.plugin.settings.pickerOpenInNewWindowShortcut)
+				.onChange(async (value) => {
+					this.plugin.settings.pickerOpenInNewWindowShortcut = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Debug settings
+		containerEl.createEl('h3', { text: 'Developer Settings' });
+
+		new Setting(containerEl)
+			.setName('Debug mode')
+			.setDesc('Enable debug logging to console (for troubleshooting)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.debugMode)
+				.onChange(async (value) => {
+					this.plugin.settings.debugMode = value;
+					await this.plugin.saveSettings();
+					new Notice(value ? 'Debug mode enabled' : 'Debug mode disabled');
+				}));
+	}
+
+	/**
+	 * Mark a folder input whose pattern PopNote could not find its notes in
+	 * again. Returns whether the value can be saved.
+	 */
+	private checkFolderPattern(setting: Setting, inputEl: HTMLInputElement, value: string): boolean {
+		const valid = this.plugin.getProfileManager().isValidFolderPattern(value);
+		inputEl.toggleClass('is-invalid', !valid);
+
+		let warningEl = setting.descEl.querySelector<HTMLElement>('.popnote-folder-warning');
+		if (!valid && !warningEl) {
+			warningEl = setting.descEl.createDiv({ text: INVALID_FOLDER_DESC, cls: 'popnote-folder-warning mod-warning' });
+		}
+		warningEl?.toggle(!valid);
+		return valid;
+	}
+
+	private addGlobalHotkeySetting(
+		containerEl: HTMLElement,
+		id: string,
+		name: string,
+		desc: string,
+		getValue: () => string,
+		setValue: (hotkey: string) => void
+	) {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc);
+		
+		// Create container that spans the full width below the setting
+		const hotkeyFullContainer = containerEl.createDiv({ cls: 'popnote-hotkey-full-container' });
+		// Global hotkeys need Electron
+		hotkeyFullContainer.toggleClass('popnote-setting-disabled', !hasNativeWindows());
+		
+		// Current hotkey display (at the top)
+		const currentHotkeyContainer = hotkeyFullContainer.createDiv({ cls: 'popnote-current-hotkey-container' });
+		currentHotkeyContainer.createEl('span', { text: 'Current: ', cls: 'popnote-label' });
+		const currentHotkeyDisplay = currentHotkeyContainer.createEl('span', { cls: 'popnote-current-hotkey' });
+		
+		// Create modifiers container
+		const modifiersContainer = hotkeyFullContainer.createDiv({ cls: 'popnote-modifiers-container' });
+		modifiersContainer.createEl('span', { text: 'Modifiers: ', cls: 'popnote-label' });
+		
+		// Platform-specific modifiers
+		const isMac = Platform.isMacOS;
+		const modifiers = isMac 
+			? [
+				{ value: 'Cmd', label: '⌘ Cmd' },
+				{ value: 'Ctrl', label: '⌃ Ctrl' },
+				{ value: 'Alt', label: '⌥ Option' },
+				{ value: 'Shift', label: '⇧ Shift' }
+			]
+			: [
+				{ value: 'Ctrl', label: 'Ctrl' },
+				{ value: 'Alt', label: 'Alt' },
+				{ value: 'Shift', label: 'Shift' },
+				{ value: 'Super', label: 'Super/Win' }
+			];
+		
+		// Keep track of selected modifiers
+		const selectedModifiers: Set<string> = new Set();
+		
+		// Parse current hotkey to set initial state
+		const currentHotkey = getValue();
+		let currentKey = '';
+		if (currentHotkey) {
+			const parts = currentHotkey.split('+');
+			currentKey = parts[parts.length - 1];
+			parts.slice(0, -1).forEach(mod => {
+				// Handle CmdOrCtrl
+				if (mod === 'CmdOrCtrl') {
+					selectedModifiers.add(isMac ? 'Cmd' : 'Ctrl');
+				} else if (mod === 'Option' && isMac) {
+					// Handle Option on macOS (stored as Alt internally)
+					selectedModifiers.add('Alt');
+				} else {
+					selectedModifiers.add(mod);
+				}
+			});
+		}
+		
+		// Create checkboxes for modifiers
+		const modifierCheckboxes: Record<string, HTMLInputElement> = {};
+		modifiers.forEach(mod => {
+			const label = modifiersContainer.createEl('label', { cls: 'popnote-modifier-label' });
+			const checkbox = label.createEl('input', { 
+				type: 'checkbox',
+				cls: 'popnote-modifier-checkbox'
+			});
+			checkbox.checked = selectedModifiers.has(mod.value);
+			modifierCheckboxes[mod.value] = checkbox;
+			label.createSpan({ text: mod.label });
+			
 			checkbox.addEventListener('change', () => {
 				if (checkbox.checked) {
 					selectedModifiers.add(mod.value);
@@ -402,7 +1061,7 @@ export class PopNoteSettingTab extends PluginSettingTab {
 		});
 		
 		// Previous hotkey tracking
-		let previousHotkey = this.plugin.settings.createNoteHotkey;
+		let previousHotkey = getValue();
 		
 		// Function to update the hotkey
 		const updateHotkey = async () => {
@@ -410,8 +1069,8 @@ export class PopNoteSettingTab extends PluginSettingTab {
 			if (!key) {
 				currentHotkeyDisplay.setText('No hotkey set');
 				// Check if hotkey actually changed
-				if (this.plugin.settings.createNoteHotkey !== '') {
-					this.plugin.settings.createNoteHotkey = '';
+				if (getValue() !== '') {
+					setValue('');
 					await this.plugin.saveSettingsAndReloadHotkeys();
 					previousHotkey = '';
 				}
@@ -442,7 +1101,7 @@ export class PopNoteSettingTab extends PluginSettingTab {
 			// Check if hotkey actually changed
 			if (hotkey !== previousHotkey) {
 				// Save hotkey
-				this.plugin.settings.createNoteHotkey = hotkey;
+				setValue(hotkey);
 				if (this.plugin.isValidHotkey(hotkey)) {
 					await this.plugin.saveSettingsAndReloadHotkeys();
 					previousHotkey = hotkey; // Update the tracked previous hotkey
@@ -453,8 +1112,9 @@ export class PopNoteSettingTab extends PluginSettingTab {
 		// Debounced version of updateHotkey
 		const debouncedUpdateHotkey = () => {
 			// Clear any existing timer
-			if (this.debounceTimer) {
-				clearTimeout(this.debounceTimer);
+			const existingTimer = this.debounceTimers.get(id);
+			if (existingTimer) {
+				clearTimeout(existingTimer);
 			}
 			
 			// Update display immediately for responsiveness
@@ -480,9 +1140,10 @@ export class PopNoteSettingTab extends PluginSettingTab {
 			}
 			
 			// Set up debounced save
-			this.debounceTimer = setTimeout(() => {
+			this.debounceTimers.set(id, setTimeout(() => {
+				this.debounceTimers.delete(id);
 				updateHotkey();
-			}, 800); // 800ms delay
+			}, 800)); // 800ms delay
 		};
 		
 		// Add input listener for key
@@ -505,146 +1166,160 @@ export class PopNoteSettingTab extends PluginSettingTab {
 		
 		// Initial update (no debounce needed)
 		updateHotkey();
-		
-		// Add CSS styles if not already added
-		if (!document.getElementById('popnote-settings-styles')) {
-			const style = document.createElement('style');
-			style.id = 'popnote-settings-styles';
-			style.textContent = `
-				.popnote-hotkey-full-container {
-					margin-top: 10px;
-					margin-bottom: 20px;
-					display: flex;
-					flex-direction: column;
-					gap: 15px;
-				}
-				.popnote-current-hotkey-container,
-				.popnote-modifiers-container,
-				.popnote-key-container {
-					display: flex;
-					align-items: center;
-					gap: 10px;
-					flex-wrap: wrap;
-				}
-				.popnote-modifier-label {
-					display: flex;
-					align-items: center;
-					gap: 5px;
-					margin: 0;
-				}
-				.popnote-modifier-checkbox {
-					margin: 0;
-				}
-				.popnote-key-input {
-					width: 100px;
-				}
-				.popnote-current-hotkey {
-					font-family: monospace;
-					color: var(--text-muted);
-					padding: 8px 12px;
-					background: var(--background-modifier-form-field);
-					border-radius: 4px;
-					white-space: nowrap;
-				}
-				.popnote-current-hotkey.mod-warning {
-					color: var(--text-error);
-					background: var(--background-modifier-error);
-				}
-				.popnote-label {
-					font-weight: 500;
-					min-width: 80px;
-					display: inline-block;
-				}
-				.popnote-file-suggestion-folder {
-					color: var(--text-muted);
-					font-size: 0.9em;
-				}
-				.popnote-key-help-link {
-					font-size: 0.85em;
-					margin-left: 10px;
+	}
+
+	private addBufferTimeSetting(
+		containerEl: HTMLElement,
+		target: { bufferTime: BufferTime; bufferPolicy: BufferPolicy; bufferRolloverHour: number }
+	) {
+		new Setting(containerEl)
+			.setName('Buffer time')
+			.setDesc('When to reuse the last created note instead of creating a new one')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('none', 'Always create new note')
+					.addOption('permanent', 'Always reuse last note')
+					.addOption('if-unchanged', 'Reuse last note while empty or unchanged from template')
+					.addOption('day', 'One note per day')
+					.addOption('week', 'One note per week')
+					.addOption('created', 'Custom time since creation (minutes)')
+					.addOption('edited', 'Custom time since last edit (minutes)')
+					.addOption('hidden', 'Custom time since last hidden (minutes)');
+
+				const bufferTime = target.bufferTime;
+				if (typeof bufferTime === 'number') {
+					dropdown.setValue(target.bufferPolicy || 'created');
+				} else {
+					dropdown.setValue(bufferTime);
 				}
-			`;
-			document.head.appendChild(style);
-		}
 
-		// Obsidian hotkeys info
-		containerEl.createEl('h3', { text: 'Obsidian Hotkeys' });
-		containerEl.createEl('p', {
-			text: 'Configure additional hotkeys within Obsidian for navigation and quick actions.',
-			cls: 'setting-item-description'
-		});
-		containerEl.createEl('p', {
-			text: 'Go to Obsidian Settings → Hotkeys and search for "PopNote" to find these commands:'
-		});
+				dropdown.onChange(async (value) => {
+					if (value === 'none' || value === 'permanent' || value === 'if-unchanged' || value === 'day' || value === 'week') {
+						target.bufferTime = value;
+					} else {
+						// Keep the minutes when switching between policies
+						if (typeof target.bufferTime !== 'number') {
+							target.bufferTime = 5; // Default to 5 minutes
+						}
+						target.bufferPolicy = value as BufferPolicy;
+					}
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide custom time input
+				});
+			});
 
-		const hotkeyList = containerEl.createEl('ul');
-		hotkeyList.createEl('li', { text: 'PopNote: Navigate to previous PopNote' });
-		hotkeyList.createEl('li', { text: 'PopNote: Navigate to next PopNote' });
-		hotkeyList.createEl('li', { text: 'PopNote: Show PopNote picker' });
+		// Rollover hour for the calendar buffers
+		if (target.bufferTime === 'day' || target.bufferTime === 'week') {
+			new Setting(containerEl)
+				.setName('New day starts at')
+				.setDesc('Hour at which a new day begins, so late-night notes still belong to the previous day. Weeks start on Monday.')
+				.addDropdown(dropdown => {
+					for (let hour = 0; hour < 24; hour++) {
+						dropdown.addOption(hour.toString(), `${hour.toString().padStart(2, '0')}:00`);
+					}
+					dropdown
+						.setValue((target.bufferRolloverHour || 0).toString())
+						.onChange(async (value) => {
+							target.bufferRolloverHour = parseInt(value);
+							await this.plugin.saveSettings();
+						});
+				});
+		}
 
-		// Picker keyboard shortcuts
-		containerEl.createEl('h3', { text: 'PopNote Picker Shortcuts' });
-		containerEl.createEl('p', {
-			text: 'Customize keyboard shortcuts for actions within the PopNote picker. Use Cmd (Mac) or Ctrl (Windows/Linux) instead of "Mod". Example: "Cmd+P" or "Ctrl+P"',
-			cls: 'setting-item-description'
-		});
+		// Custom buffer time input
+		const bufferTime = target.bufferTime;
+		if (typeof bufferTime === 'number') {
+			new Setting(containerEl)
+				.setName('Buffer time (minutes)')
+				.setDesc('Number of minutes to reuse the last created note')
+				.addText(text => text
+					.setPlaceholder('5')
+					.setValue(bufferTime.toString())
+					.onChange(async (value) => {
+						const minutes = parseInt(value);
+						if (!isNaN(minutes) && minutes > 0) {
+							target.bufferTime = minutes;
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+	}
 
-		new Setting(containerEl)
-			.setName('Pin/Unpin shortcut')
-			.setDesc('Keyboard shortcut to pin or unpin a note in the picker')
-			.addText(text => text
-				.setPlaceholder('Cmd+P or Ctrl+P')
-				.setValue(this.plugin.settings.pickerPinShortcut)
-				.onChange(async (value) => {
-					this.plugin.settings.pickerPinShortcut = value;
-					await this.plugin.saveSettings();
-				}));
+	private addProfileSettings(containerEl: HTMLElement, profile: PopNoteProfile) {
+		const profileContainer = containerEl.createDiv({ cls: 'popnote-profile-container' });
 
-		new Setting(containerEl)
-			.setName('Delete shortcut')
-			.setDesc('Keyboard shortcut to delete a note in the picker')
+		new Setting(profileContainer)
+			.setName('Profile name')
+			.setHeading()
 			.addText(text => text
-				.setPlaceholder('Cmd+D or Ctrl+D')
-				.setValue(this.plugin.settings.pickerDeleteShortcut)
+				.setPlaceholder('Meetings')
+				.setValue(profile.name)
 				.onChange(async (value) => {
-					this.plugin.settings.pickerDeleteShortcut = value;
+					profile.name = value.trim() || 'Untitled profile';
 					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete profile')
+				.onClick(async () => {
+					this.plugin.getProfileManager().deleteProfile(profile.id);
+					await this.plugin.saveSettingsAndReloadHotkeys();
+					this.display();
 				}));
 
-		new Setting(containerEl)
-			.setName('Open in new tab shortcut')
-			.setDesc('Keyboard shortcut to open a note in a new tab')
-			.addText(text => text
-				.setPlaceholder('Cmd+Enter or Ctrl+Enter')
-				.setValue(this.plugin.settings.pickerOpenInNewTabShortcut)
+		const folderSetting = new Setting(profileContainer)
+			.setName('Folder')
+			.setDesc('Folder where notes of this profile will be stored. Date variables create subfolders, e.g. Meetings/{{year}}');
+		folderSetting.addText(text => {
+			new FolderSuggest(this.app, text.inputEl);
+			text
+				.setPlaceholder('PopNotes/Meetings')
+				.setValue(profile.folder)
 				.onChange(async (value) => {
-					this.plugin.settings.pickerOpenInNewTabShortcut = value;
+					// Trim and remove trailing slash
+					value = value.trim().replace(/\/$/, '');
+					if (!this.checkFolderPattern(folderSetting, text.inputEl, value)) {
+						return;
+					}
+					profile.folder = value;
 					await this.plugin.saveSettings();
-				}));
+				});
+		});
 
-		new Setting(containerEl)
-			.setName('Open in PopNote window shortcut')
-			.setDesc('Keyboard shortcut to open a note in the PopNote window')
+		new Setting(profileContainer)
+			.setName('Note name pattern')
+			.setDesc('Pattern for new note names of this profile')
 			.addText(text => text
-				.setPlaceholder('Alt+Enter')
-				.setValue(this.plugin.settings.pickerOpenInNewWindowShortcut)
+				.setPlaceholder('PopNote {{date}} {{time}}')
+				.setValue(profile.noteNamePattern)
 				.onChange(async (value) => {
-					this.plugin.settings.pickerOpenInNewWindowShortcut = value;
+					profile.noteNamePattern = value;
 					await this.plugin.saveSettings();
 				}));
 
-		// Debug settings
-		containerEl.createEl('h3', { text: 'Developer Settings' });
+		new Setting(profileContainer)
+			.setName('Template file')
+			.setDesc('Optional template file for new notes of this profile')
+			.addText(text => {
+				new FileSuggest(this.app, text.inputEl);
+				text
+					.setPlaceholder('Templates/Meeting.md')
+					.setValue(profile.templateFile)
+					.onChange(async (value) => {
+						profile.templateFile = value;
+						await this.plugin.saveSettings();
+					});
+			});
 
-		new Setting(containerEl)
-			.setName('Debug mode')
-			.setDesc('Enable debug logging to console (for troubleshooting)')
-			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.debugMode)
-				.onChange(async (value) => {
-					this.plugin.settings.debugMode = value;
-					await this.plugin.saveSettings();
-					new Notice(value ? 'Debug mode enabled' : 'Debug mode disabled');
-				}));
+		this.addBufferTimeSetting(profileContainer, profile);
+
+		this.addGlobalHotkeySetting(
+			profileContainer,
+			`profile-${profile.id}`,
+			'Global hotkey',
+			'Optional system-wide hotkey to create or open a note of this profile.',
+			() => profile.hotkey,
+			(hotkey) => { profile.hotkey = hotkey; }
+		);
 	}
-}
\ No newline at end of file
+}
@@ -1,23 +1,68 @@
 import { PopNoteSettings } from '../types';
 
+export const DEFAULT_PROFILE_ID = 'default';
+
 export const DEFAULT_SETTINGS: PopNoteSettings = {
 	popNotesFolder: 'PopNotes',
 	templateFile: '',
+	templateEngine: 'auto',
 	bufferTime: 5, // 5 minutes default
+	bufferPolicy: 'created',
+	bufferRolloverHour: 0,
 	sortOrder: 'modified',
 	noteNamePattern: 'PopNote {{date}} {{time}}',
+	collisionStrategy: 'counter',
+	autoTitleMode: 'off',
+	discardEmptyNotes: false,
+	// Archive settings
+	archiveEnabled: false,
+	archiveAfterDays: 30,
+	archiveMode: 'folder',
+	archiveFolder: 'PopNotes/Archive',
+	mergeOriginals: 'archive',
+	// Digest settings
+	digestFolder: 'PopNotes/Digests',
+	digestAutoPeriod: 'off',
+	frontmatterStamping: false,
+	frontmatterTags: [],
+	// Append mode settings
+	captureMode: 'note',
+	appendTarget: 'inbox',
+	appendInboxNote: 'Inbox.md',
+	appendHeading: '',
+	appendTimestamp: true,
+	appendTimestampFormat: 'YYYY-MM-DD HH:mm',
 	createNoteHotkey: 'CmdOrCtrl+Alt+N',
+	toggleWindowHotkey: '',
+	newNoteHotkey: '',
+	clipboardNoteHotkey: '',
+	appendClipboardHotkey: '',
+	openPickerHotkey: '',
+	previousNoteHotkey: '',
+	nextNoteHotkey: '',
 	defaultWindowWidth: 800,
 	defaultWindowHeight: 600,
 	pinnedNotes: [],
+	// Sticky note windows
+	stickyWindowWidth: 320,
+	stickyWindowHeight: 320,
+	stickyNotes: [],
 	windowSizeMode: 'remember',
 	lastUsedWindowSize: null,
-	lastCreatedNote: null,
+	profiles: [],
+	lastCreatedNotes: {},
 	// Picker keyboard shortcuts
 	pickerPinShortcut: 'Mod+P',
 	pickerDeleteShortcut: 'Mod+D',
 	pickerOpenInNewTabShortcut: 'Mod+Enter',
 	pickerOpenInNewWindowShortcut: 'Alt+Enter',
+	pickerProfileFilterShortcut: 'Mod+F',
+	pickerIncludeArchivedShortcut: 'Mod+Shift+A',
+	pickerFileNoteShortcut: 'Mod+M',
+	pickerSendToShortcut: 'Mod+S',
+	pickerSelectShortcut: 'Mod+E',
+	pickerMergeShortcut: 'Mod+G',
+	pickerStatusFilterShortcut: 'Mod+R',
 	// Window behavior settings
 	windowLevel: 'normal',
 	visibleOnAllWorkspaces: false,
@@ -26,7 +71,26 @@ export const DEFAULT_SETTINGS: PopNoteSettings = {
 	cursorPositions: {},
 	// Window position settings
 	windowPosition: 'center',
+	windowDisplay: 'primary',
 	lastWindowPosition: null,
+	popWindowState: null,
+	lastFiledFolder: '',
+	lastSendToOptions: {
+		target: 'note',
+		notePath: '',
+		heading: '',
+		position: 'append',
+		afterSend: 'delete'
+	},
+	lastExportOptions: {
+		from: '',
+		to: '',
+		pinned: 'all',
+		profileId: '',
+		format: 'markdown',
+		destination: 'vault',
+		vaultFolder: ''
+	},
 	// File tracking system
 	fileTracking: {
 		fileIdToPath: {},
@@ -1,28 +1,138 @@
+export type BufferTime = 'none' | 'permanent' | 'if-unchanged' | 'day' | 'week' | number; // number represents minutes
+// What a minute-based buffer time is measured from
+export type BufferPolicy = 'created' | 'edited' | 'hidden';
+
+export interface PopNoteProfile {
+	id: string;
+	name: string;
+	folder: string;
+	templateFile: string;
+	noteNamePattern: string;
+	bufferTime: BufferTime;
+	bufferPolicy: BufferPolicy;
+	bufferRolloverHour: number; // Hour at which a new day starts for the day and week buffers
+	hotkey: string; // Optional global hotkey for creating/opening notes of this profile
+}
+
+export interface LastCreatedNote {
+	path: string;
+	timestamp: number;
+	fileId?: string; // ctime as string
+	hiddenAt?: number; // When the note was last hidden or left in the PopNote window
+}
+
+export interface CreateNoteOptions {
+	includeClipboard?: boolean; // Add the clipboard contents even if the template has no {{clipboard}} variable
+	source?: string; // How the note was captured, written to the frontmatter (default: window)
+	content?: string; // Use this content instead of the template
+}
+
+export interface FileNoteOptions {
+	folder: string; // Destination folder, empty for the vault root
+	name: string; // New note name without extension
+	stripFrontmatter: boolean; // Remove the PopNote frontmatter properties
+}
+
+export interface SendToOptions {
+	target: 'note' | 'daily';
+	notePath: string; // Target note when target is 'note'
+	heading: string; // Optional heading to insert under
+	position: 'append' | 'prepend';
+	afterSend: 'delete' | 'archive';
+}
+
+export interface ExportOptions {
+	from: string; // YYYY-MM-DD, empty for no limit
+	to: string;
+	pinned: 'all' | 'pinned' | 'unpinned';
+	profileId: string; // Empty for all profiles
+	format: 'markdown' | 'json' | 'zip';
+	destination: 'vault' | 'disk';
+	vaultFolder: string;
+}
+
+// Display to place the PopNote window on, a number is an Electron display ID
+export type WindowDisplay = 'primary' | 'cursor' | 'focused' | number;
+
+export interface StickyNoteState {
+	path: string;
+	width: number;
+	height: number;
+	x?: number; // Position, unset until the window was moved
+	y?: number;
+}
+
+export interface PopWindowState {
+	path: string; // Note shown in the PopNote window
+	visible: boolean;
+	bounds: { x: number; y: number; width: number; height: number } | null;
+}
+
 export interface PopNoteSettings {
 	popNotesFolder: string;
 	templateFile: string;
-	bufferTime: 'none' | 'permanent' | number; // number represents minutes
+	templateEngine: 'auto' | 'builtin' | 'templater' | 'core'; // Which plugin processes template files
+	bufferTime: BufferTime;
+	bufferPolicy: BufferPolicy;
+	bufferRolloverHour: number; // Hour at which a new day starts for the day and week buffers
 	sortOrder: 'created' | 'modified';
 	noteNamePattern: string;
+	autoTitleMode: 'off' | 'heading' | 'first-line'; // Rename notes from their content when leaving them
+	discardEmptyNotes: boolean; // Delete notes that are empty or unchanged from the template when leaving them
+	// Archive settings
+	archiveEnabled: boolean;
+	archiveAfterDays: number; // Archive notes not modified for this many days
+	archiveMode: 'folder' | 'trash';
+	archiveFolder: string;
+	mergeOriginals: 'delete' | 'archive'; // What happens to notes after they were merged
+	// Digest settings
+	digestFolder: string;
+	digestAutoPeriod: 'off' | 'day' | 'week'; // Keep the digest of this period up to date automatically
+	collisionStrategy: 'counter' | 'seconds' | 'milliseconds' | 'open-existing'; // What to do when the note name already exists
+	frontmatterStamping: boolean; // Write created, popnote, profile, source, hostname and tags to new notes
+	frontmatterTags: string[]; // Default tags for new notes, without #
+	// Append mode settings
+	captureMode: 'note' | 'append'; // Create a note per capture, or append captures to a target note
+	appendTarget: 'inbox' | 'daily';
+	appendInboxNote: string; // Path of the inbox note
+	appendHeading: string; // Optional heading inside the target to append under
+	appendTimestamp: boolean; // Prefix each entry with a timestamp bullet
+	appendTimestampFormat: string;
 	createNoteHotkey: string; // Global hotkey for creating notes
+	toggleWindowHotkey: string; // Global hotkey for showing/hiding the window
+	newNoteHotkey: string; // Global hotkey for always creating a new note
+	clipboardNoteHotkey: string; // Global hotkey for creating a note from the clipboard
+	appendClipboardHotkey: string; // Global hotkey for appending the clipboard to the current note
+	openPickerHotkey: string; // Global hotkey for opening the picker
+	previousNoteHotkey: string; // Global hotkey for navigating to the previous note
+	nextNoteHotkey: string; // Global hotkey for navigating to the next note
 	defaultWindowWidth: number;
 	defaultWindowHeight: number;
 	pinnedNotes: string[]; // Array of note paths
+	// Sticky note windows
+	stickyWindowWidth: number;
+	stickyWindowHeight: number;
+	stickyNotes: StickyNoteState[]; // Open sticky windows, restored on startup
 	windowSizeMode: 'fixed' | 'remember'; // Whether to use fixed size or remember last used size
 	lastUsedWindowSize: {
 		width: number;
 		height: number;
 	} | null;
-	lastCreatedNote: {
-		path: string;
-		timestamp: number;
-		fileId?: string; // ctime as string
-	} | null;
+	// Profiles in addition to the default one defined by the settings above
+	profiles: PopNoteProfile[];
+	lastCreatedNotes: { [profileId: string]: LastCreatedNote };
 	// Picker keyboard shortcuts
 	pickerPinShortcut: string;
 	pickerDeleteShortcut: string;
 	pickerOpenInNewTabShortcut: string;
 	pickerOpenInNewWindowShortcut: string;
+	pickerProfileFilterShortcut: string;
+	pickerIncludeArchivedShortcut: string;
+	pickerFileNoteShortcut: string;
+	pickerSendToShortcut: string;
+	pickerSelectShortcut: string;
+	pickerMergeShortcut: string;
+	pickerStatusFilterShortcut: string;
 	// Window behavior settings
 	windowLevel: 'screen-saver' | 'floating' | 'normal';
 	visibleOnAllWorkspaces: boolean;
@@ -31,11 +141,20 @@ export interface PopNoteSettings {
 	cursorPositions: { [filePath: string]: { line: number; ch: number } };
 	// Window position settings
 	windowPosition: 'center' | 'left' | 'right' | 'last';
+	windowDisplay: WindowDisplay;
 	lastWindowPosition: { x: number; y: number } | null;
+	popWindowState: PopWindowState | null; // Restored after Obsidian restarts
+	// Folder last used to file a note into the vault
+	lastFiledFolder: string;
+	// Options last used to send a note to another note
+	lastSendToOptions: SendToOptions;
+	// Options last used to export notes
+	lastExportOptions: ExportOptions;
 	// File tracking system
 	fileTracking: {
 		fileIdToPath: { [ctime: string]: string };
 		pathToFileId: { [filePath: string]: string };
+		initialContentHashes?: { [ctime: string]: string }; // Content of new notes right after creation
 	};
 	// Debug mode
 	debugMode: boolean;
@@ -48,4 +167,12 @@ export interface PopNoteItem {
 	displayText: string;
 	metadata: string;
 	isPinned: boolean;
+}
+
+export type PopNoteStatus = 'unprocessed' | 'processed';
+
+export interface PopNotesQuery {
+	profileId?: string; // Only notes of this profile
+	includeArchived?: boolean;
+	status?: PopNoteStatus; // Only notes with this review status
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { App, Modal, Notice, Setting, moment } from 'obsidian';
+import { FolderSuggest } from './FolderSuggest';
+import { ExportOptions, PopNoteProfile } from '../types';
+import { hasNativeWindows } from '../utils/platform';
+
+export class ExportModal extends Modal {
+	private profiles: PopNoteProfile[];
+	private options: ExportOptions;
+	private onSubmit: (options: ExportOptions) => void;
+
+	constructor(app: App, profiles: PopNoteProfile[], defaults: ExportOptions, onSubmit: (options: ExportOptions) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.options = { ...defaults };
+		this.onSubmit = onSubmit;
+
+		// The last used profile may have been deleted
+		if (!profiles.some(profile => profile.id === this.options.profileId)) {
+			this.options.profileId = '';
+		}
+		// Files can only be written to disk where Node is available
+		if (!hasNativeWindows()) {
+			this.options.destination = 'vault';
+		}
+	}
+
+	onOpen() {
+		this.titleEl.setText('Export PopNotes');
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl)
+			.setName('Created from')
+			.setDesc('YYYY-MM-DD, leave empty for no limit')
+			.addText(text => text
+				.setPlaceholder('2024-01-01')
+				.setValue(this.options.from)
+				.onChange(value => {
+					this.options.from = value.trim();
+				}));
+
+		new Setting(contentEl)
+			.setName('Created until')
+			.setDesc('YYYY-MM-DD, leave empty for no limit')
+			.addText(text => text
+				.setPlaceholder('2024-12-31')
+				.setValue(this.options.to)
+				.onChange(value => {
+					this.options.to = value.trim();
+				}));
+
+		new Setting(contentEl)
+			.setName('Pinned')
+			.addDropdown(dropdown => dropdown
+				.addOption('all', 'All notes')
+				.addOption('pinned', 'Only pinned notes')
+				.addOption('unpinned', 'Only unpinned notes')
+				.setValue(this.options.pinned)
+				.onChange(value => {
+					this.options.pinned = value as 'all' | 'pinned' | 'unpinned';
+				}));
+
+		if (this.profiles.length > 1) {
+			new Setting(contentEl)
+				.setName('Profile')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'All profiles');
+					for (const profile of this.profiles) {
+						dropdown.addOption(profile.id, profile.name);
+					}
+					dropdown
+						.setValue(this.options.profileId)
+						.onChange(value => {
+							this.options.profileId = value;
+						});
+				});
+		}
+
+		new Setting(contentEl)
+			.setName('Format')
+			.addDropdown(dropdown => dropdown
+				.addOption('markdown', 'Markdown digest')
+				.addOption('json', 'JSON with metadata')
+				.addOption('zip', 'Zip of the note files')
+				.setValue(this.options.format)
+				.onChange(value => {
+					this.options.format = value as 'markdown' | 'json' | 'zip';
+				}));
+
+		if (hasNativeWindows()) {
+			new Setting(contentEl)
+				.setName('Save to')
+				.addDropdown(dropdown => dropdown
+					.addOption('vault', 'A folder in the vault')
+					.addOption('disk', 'A file on disk')
+					.setValue(this.options.destination)
+					.onChange(value => {
+						this.options.destination = value as 'vault' | 'disk';
+						// Show or hide the vault folder
+						this.render();
+					}));
+		}
+
+		if (this.options.destination === 'vault') {
+			new Setting(contentEl)
+				.setName('Folder')
+				.addText(text => {
+					new FolderSuggest(this.app, text.inputEl);
+					text
+						.setPlaceholder('/')
+						.setValue(this.options.vaultFolder)
+						.onChange(value => {
+							this.options.vaultFolder = value.trim().replace(/\/$/, '');
+						});
+				});
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Export')
+				.setCta()
+				.onClick(() => {
+					if (!this.isValidDate(this.options.from) || !this.isValidDate(this.options.to)) {
+						new Notice('PopNote: Enter dates as YYYY-MM-DD');
+						return;
+					}
+					this.close();
+					this.onSubmit({ ...this.options });
+				}));
+	}
+
+	private isValidDate(value: string): boolean {
+		return !value || moment(value, 'YYYY-MM-DD', true).isValid();
+	}
+}
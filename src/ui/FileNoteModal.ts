@@ -0,0 +1,86 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { FolderSuggest } from './FolderSuggest';
+import { FileNoteOptions } from '../types';
+
+export class FileNoteModal extends Modal {
+	private file: TFile;
+	private options: FileNoteOptions;
+	private onSubmit: (options: FileNoteOptions) => void;
+
+	constructor(app: App, file: TFile, defaults: Partial<FileNoteOptions>, onSubmit: (options: FileNoteOptions) => void) {
+		super(app);
+		this.file = file;
+		this.onSubmit = onSubmit;
+		this.options = {
+			folder: defaults.folder || '',
+			name: defaults.name || file.basename,
+			stripFrontmatter: defaults.stripFrontmatter ?? true
+		};
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(`File "${this.file.basename}"`);
+
+		new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('Folder to move the note to')
+			.addText(text => {
+				new FolderSuggest(this.app, text.inputEl);
+				text
+					.setPlaceholder('/')
+					.setValue(this.options.folder)
+					.onChange(value => {
+						this.options.folder = value.trim().replace(/\/$/, '');
+					});
+				// Focus the folder so it can be typed right away
+				setTimeout(() => text.inputEl.focus(), 50);
+			});
+
+		new Setting(contentEl)
+			.setName('Name')
+			.addText(text => text
+				.setValue(this.options.name)
+				.onChange(value => {
+					this.options.name = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Remove PopNote frontmatter')
+			.setDesc('Remove the created, popnote, profile, source and hostname properties')
+			.addToggle(toggle => toggle
+				.setValue(this.options.stripFrontmatter)
+				.onChange(value => {
+					this.options.stripFrontmatter = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('File note')
+				.setCta()
+				.onClick(() => this.submit()));
+
+		contentEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+			// Enter inside the folder suggestions selects a folder instead
+			if (evt.key === 'Enter' && !evt.isComposing && !document.querySelector('.suggestion-container')) {
+				evt.preventDefault();
+				this.submit();
+			}
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private submit() {
+		if (!this.options.name.trim()) {
+			return;
+		}
+		this.close();
+		this.onSubmit({ ...this.options, name: this.options.name.trim() });
+	}
+}
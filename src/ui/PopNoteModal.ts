@@ -0,0 +1,97 @@
+import { App, Modal, TFile, debounce } from 'obsidian';
+import type { PopNoteWindowHandle } from '../core/FallbackWindow';
+
+/**
+ * A floating editor for a pop note, used as the PopNote window on mobile
+ * where PopNote cannot open windows of its own.
+ */
+export class PopNoteModal extends Modal implements PopNoteWindowHandle {
+	id = `modal-${Date.now()}`;
+	private file: TFile;
+	private textArea: HTMLTextAreaElement | null = null;
+	private isOpen = false;
+	private hiddenByPopNote = false;
+	// Called when the user closes the modal
+	private onHide: (file: TFile) => void;
+	private save = debounce(() => this.saveContent(), 500, true);
+
+	constructor(app: App, file: TFile, onHide: (file: TFile) => void) {
+		super(app);
+		this.file = file;
+		this.onHide = onHide;
+	}
+
+	getFile(): TFile {
+		return this.file;
+	}
+
+	async openFile(file: TFile) {
+		await this.saveContent();
+		this.file = file;
+		await this.loadContent();
+	}
+
+	async onOpen() {
+		this.isOpen = true;
+		this.modalEl.addClass('popnote-modal');
+		this.textArea = this.contentEl.createEl('textarea', { cls: 'popnote-modal-editor' });
+		this.textArea.addEventListener('input', () => this.save());
+		await this.loadContent();
+		this.textArea.focus();
+		// Start typing at the end of the note
+		this.textArea.setSelectionRange(this.textArea.value.length, this.textArea.value.length);
+	}
+
+	async onClose() {
+		this.isOpen = false;
+		await this.saveContent();
+		this.contentEl.empty();
+		this.textArea = null;
+		if (!this.hiddenByPopNote) {
+			this.onHide(this.file);
+		}
+	}
+
+	private async loadContent() {
+		this.titleEl.setText(this.file.basename);
+		if (this.textArea) {
+			this.textArea.value = await this.app.vault.read(this.file);
+		}
+	}
+
+	async saveContent() {
+		if (!this.textArea) {
+			return;
+		}
+		const content = this.textArea.value;
+		await this.app.vault.process(this.file, (data) => data === content ? data : content);
+	}
+
+	isDestroyed(): boolean {
+		return !this.isOpen;
+	}
+
+	isVisible(): boolean {
+		return this.isOpen;
+	}
+
+	show() {
+		if (!this.isOpen) {
+			this.hiddenByPopNote = false;
+			this.open();
+		}
+	}
+
+	focus() {
+		this.textArea?.focus();
+	}
+
+	hide() {
+		this.hiddenByPopNote = true;
+		this.close();
+	}
+
+	destroy() {
+		this.hide();
+	}
+}
@@ -1,5 +1,5 @@
-import { App, FuzzySuggestModal, FuzzyMatch, MarkdownView, Modal, Modifier, TFile } from 'obsidian';
-import { PopNoteItem } from '../types';
+import { App, FuzzySuggestModal, FuzzyMatch, MarkdownView, Modal, Modifier, Notice, TFile } from 'obsidian';
+import { PopNoteItem, PopNotesQuery } from '../types';
 import type PopNotePlugin from '../core/PopNotePlugin';
 
 export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
@@ -45,14 +45,25 @@ export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
 	plugin: PopNotePlugin;
 	private notes: TFile[];
 	private currentSelected: PopNoteItem | null = null;
+	private query: PopNotesQuery;
+	// Paths of notes selected for merging
+	private selectedPaths: Set<string> = new Set();
 
-	constructor(app: App, plugin: PopNotePlugin) {
+	constructor(app: App, plugin: PopNotePlugin, query: PopNotesQuery = {}) {
 		super(app);
 		this.plugin = plugin;
 		this.notes = [];
+		this.query = query;
 
 		// Set placeholder text
-		this.setPlaceholder('Search PopNotes...');
+		const scope = query.includeArchived ? ' (including archived)' : '';
+		const status = query.status ? `${query.status} ` : '';
+		if (query.profileId) {
+			const profile = this.plugin.getProfileManager().getProfile(query.profileId);
+			this.setPlaceholder(`Search ${status}${profile.name} PopNotes${scope}...`);
+		} else {
+			this.setPlaceholder(`Search ${status}PopNotes${scope}...`);
+		}
 
 		// Alternative approach: Override keydown handler
 		// Use capturing phase to intercept events before they reach child elements
@@ -165,6 +176,69 @@ export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
 			return;
 		}
 
+		// Cycle profile filter
+		if (currentShortcut === this.plugin.settings.pickerProfileFilterShortcut) {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.debugLog('Profile filter shortcut detected');
+			this.cycleProfileFilter();
+			return;
+		}
+
+		// File into the vault
+		if (currentShortcut === this.plugin.settings.pickerFileNoteShortcut) {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.debugLog('File note shortcut detected');
+			this.fileNote(selected);
+			return;
+		}
+
+		// Send to another note
+		if (currentShortcut === this.plugin.settings.pickerSendToShortcut) {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.debugLog('Send to shortcut detected');
+			this.sendToNote(selected);
+			return;
+		}
+
+		// Select for merging
+		if (currentShortcut === this.plugin.settings.pickerSelectShortcut) {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.debugLog('Select shortcut detected');
+			this.toggleSelection(selected);
+			return;
+		}
+
+		// Merge selected notes
+		if (currentShortcut === this.plugin.settings.pickerMergeShortcut) {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.debugLog('Merge shortcut detected');
+			this.mergeSelected();
+			return;
+		}
+
+		// Include archived notes
+		if (currentShortcut === this.plugin.settings.pickerIncludeArchivedShortcut) {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.debugLog('Include archived shortcut detected');
+			this.toggleIncludeArchived();
+			return;
+		}
+
+		// Filter by review status
+		if (currentShortcut === this.plugin.settings.pickerStatusFilterShortcut) {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.debugLog('Status filter shortcut detected');
+			this.cycleStatusFilter();
+			return;
+		}
+
 		// Open in new window
 		if (currentShortcut === this.plugin.settings.pickerOpenInNewWindowShortcut) {
 			evt.preventDefault();
@@ -205,7 +279,7 @@ export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
 		this.debugLog('Scope available:', !!this.scope);
 
 		// Load notes
-		this.notes = await this.plugin.getPopNotesSorted();
+		this.notes = await this.plugin.getPopNotesSorted(this.query);
 
 		// Set instructions based on current settings
 		this.updateInstructions();
@@ -245,14 +319,25 @@ export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
 		// Sort pinned notes first
 		const pinnedNotes: PopNoteItem[] = [];
 		const unpinnedNotes: PopNoteItem[] = [];
+		const profileManager = this.plugin.getProfileManager();
+		const archiveManager = this.plugin.getArchiveManager();
+		const frontmatterManager = this.plugin.getFrontmatterManager();
+		const showProfile = !this.query.profileId && profileManager.hasCustomProfiles();
 
 		this.notes.forEach(file => {
 			const isPinned = this.plugin.settings.pinnedNotes.includes(file.path);
 			const date = new Date(this.plugin.settings.sortOrder === 'created' ? file.stat.ctime : file.stat.mtime);
+			const profile = showProfile ? profileManager.getProfileForFile(file) : null;
+			const metadata = [
+				...(this.query.includeArchived && archiveManager.isArchived(file) ? ['Archived'] : []),
+				...(!this.query.status && frontmatterManager.getStatus(file) === 'processed' ? ['Processed'] : []),
+				...(profile ? [profile.name] : []),
+				date.toLocaleString()
+			];
 			const item: PopNoteItem = {
 				file,
 				displayText: file.basename,
-				metadata: date.toLocaleString(),
+				metadata: metadata.join(' · '),
 				isPinned
 			};
 
@@ -286,6 +371,11 @@ export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
 		// Create title container that includes pin icon and name
 		const titleContainer = container.createDiv({ cls: 'popnote-suggestion-title' });
 
+		// Selection indicator
+		if (this.selectedPaths.has(item.file.path)) {
+			titleContainer.createSpan({ text: '☑ ', cls: 'popnote-selected-indicator' });
+		}
+
 		// Pin indicator
 		if (item.isPinned) {
 			titleContainer.createSpan({ text: '📌 ', cls: 'popnote-pin-indicator' });
@@ -349,7 +439,68 @@ export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
 		item.isPinned = !item.isPinned;
 		// Close and reopen to refresh the display
 		this.close();
-		new PopNotePickerModal(this.app, this.plugin).open();
+		new PopNotePickerModal(this.app, this.plugin, this.query).open();
+	}
+
+	private cycleProfileFilter() {
+		// Cycle through: all profiles -> each profile -> all profiles
+		const profiles = this.plugin.getProfileManager().getProfiles();
+		const currentIndex = profiles.findIndex(p => p.id === this.query.profileId);
+		const nextProfile = currentIndex + 1 < profiles.length ? profiles[currentIndex + 1] : null;
+		this.close();
+		new PopNotePickerModal(this.app, this.plugin, { ...this.query, profileId: nextProfile?.id }).open();
+	}
+
+	private fileNote(item: PopNoteItem) {
+		this.close();
+		this.plugin.openFileNoteModal(item.file);
+	}
+
+	private sendToNote(item: PopNoteItem) {
+		this.close();
+		this.plugin.openSendToNoteModal(item.file);
+	}
+
+	private toggleSelection(item: PopNoteItem) {
+		if (this.selectedPaths.has(item.file.path)) {
+			this.selectedPaths.delete(item.file.path);
+		} else {
+			this.selectedPaths.add(item.file.path);
+		}
+		// Re-render the suggestions to update the selection indicators, keeping the highlighted item
+		// @ts-ignore - accessing private property
+		const selectedIndex = this.chooser?.selectedItem;
+		// @ts-ignore - accessing private method
+		this.onInput();
+		if (selectedIndex !== undefined && selectedIndex >= 0) {
+			// @ts-ignore - accessing private method
+			this.chooser?.setSelectedItem(selectedIndex);
+		}
+		this.updateInstructions();
+	}
+
+	private mergeSelected() {
+		const files = this.notes.filter(note => this.selectedPaths.has(note.path));
+		if (files.length < 2) {
+			new Notice('PopNote: Select at least two notes to merge');
+			return;
+		}
+		this.close();
+		this.plugin.mergePopNotes(files);
+	}
+
+	private toggleIncludeArchived() {
+		this.close();
+		new PopNotePickerModal(this.app, this.plugin, { ...this.query, includeArchived: !this.query.includeArchived }).open();
+	}
+
+	private cycleStatusFilter() {
+		// All -> unprocessed -> processed -> all
+		const nextStatus = !this.query.status
+			? 'unprocessed'
+			: this.query.status === 'unprocessed' ? 'processed' : undefined;
+		this.close();
+		new PopNotePickerModal(this.app, this.plugin, { ...this.query, status: nextStatus }).open();
 	}
 
 	private async deleteNote(item: PopNoteItem) {
@@ -388,7 +539,7 @@ export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
 			// Close and reopen to refresh the display
 			if (this.notes.length > 0) {
 				this.close();
-				new PopNotePickerModal(this.app, this.plugin).open();
+				new PopNotePickerModal(this.app, this.plugin, this.query).open();
 			} else {
 				this.close();
 			}
@@ -415,6 +566,20 @@ export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
 			{ command: formatShortcut(this.plugin.settings.pickerOpenInNewWindowShortcut), purpose: 'open in new window' },
 			{ command: formatShortcut(this.plugin.settings.pickerPinShortcut), purpose: 'pin/unpin' },
 			{ command: formatShortcut(this.plugin.settings.pickerDeleteShortcut), purpose: 'delete' },
+			{ command: formatShortcut(this.plugin.settings.pickerFileNoteShortcut), purpose: 'file into vault' },
+			{ command: formatShortcut(this.plugin.settings.pickerSendToShortcut), purpose: 'send to note' },
+			{ command: formatShortcut(this.plugin.settings.pickerSelectShortcut), purpose: 'select' },
+			...(this.selectedPaths.size > 1
+				? [{ command: formatShortcut(this.plugin.settings.pickerMergeShortcut), purpose: `merge ${this.selectedPaths.size} notes` }]
+				: []),
+			...(this.plugin.getProfileManager().hasCustomProfiles()
+				? [{ command: formatShortcut(this.plugin.settings.pickerProfileFilterShortcut), purpose: 'filter by profile' }]
+				: []),
+			{
+				command: formatShortcut(this.plugin.settings.pickerIncludeArchivedShortcut),
+				purpose: this.query.includeArchived ? 'hide archived' : 'include archived'
+			},
+			{ command: formatShortcut(this.plugin.settings.pickerStatusFilterShortcut), purpose: 'filter by status' },
 			{ command: 'esc', purpose: 'close' }
 		]);
 	}
@@ -577,6 +742,78 @@ export class PopNotePickerModal extends FuzzySuggestModal<PopNoteItem> {
 			return false;
 		});
 
+		// Register profile filter shortcut
+		const profileFilterShortcut = parseShortcut(this.plugin.settings.pickerProfileFilterShortcut);
+		this.scope.register(profileFilterShortcut.modifiers, profileFilterShortcut.key, (evt: KeyboardEvent) => {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.cycleProfileFilter();
+			return false;
+		});
+
+		// Register file note shortcut
+		const fileNoteShortcut = parseShortcut(this.plugin.settings.pickerFileNoteShortcut);
+		this.scope.register(fileNoteShortcut.modifiers, fileNoteShortcut.key, (evt: KeyboardEvent) => {
+			evt.preventDefault();
+			evt.stopPropagation();
+			const selected = this.getSelectedItem();
+			if (selected) {
+				this.fileNote(selected);
+			}
+			return false;
+		});
+
+		// Register send to shortcut
+		const sendToShortcut = parseShortcut(this.plugin.settings.pickerSendToShortcut);
+		this.scope.register(sendToShortcut.modifiers, sendToShortcut.key, (evt: KeyboardEvent) => {
+			evt.preventDefault();
+			evt.stopPropagation();
+			const selected = this.getSelectedItem();
+			if (selected) {
+				this.sendToNote(selected);
+			}
+			return false;
+		});
+
+		// Register select shortcut
+		const selectShortcut = parseShortcut(this.plugin.settings.pickerSelectShortcut);
+		this.scope.register(selectShortcut.modifiers, selectShortcut.key, (evt: KeyboardEvent) => {
+			evt.preventDefault();
+			evt.stopPropagation();
+			const selected = this.getSelectedItem();
+			if (selected) {
+				this.toggleSelection(selected);
+			}
+			return false;
+		});
+
+		// Register merge shortcut
+		const mergeShortcut = parseShortcut(this.plugin.settings.pickerMergeShortcut);
+		this.scope.register(mergeShortcut.modifiers, mergeShortcut.key, (evt: KeyboardEvent) => {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.mergeSelected();
+			return false;
+		});
+
+		// Register include archived shortcut
+		const includeArchivedShortcut = parseShortcut(this.plugin.settings.pickerIncludeArchivedShortcut);
+		this.scope.register(includeArchivedShortcut.modifiers, includeArchivedShortcut.key, (evt: KeyboardEvent) => {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.toggleIncludeArchived();
+			return false;
+		});
+
+		// Register status filter shortcut
+		const statusFilterShortcut = parseShortcut(this.plugin.settings.pickerStatusFilterShortcut);
+		this.scope.register(statusFilterShortcut.modifiers, statusFilterShortcut.key, (evt: KeyboardEvent) => {
+			evt.preventDefault();
+			evt.stopPropagation();
+			this.cycleStatusFilter();
+			return false;
+		});
+
 		// Register open in new window shortcut
 		const newWindowShortcut = parseShortcut(this.plugin.settings.pickerOpenInNewWindowShortcut);
 		this.scope.register(newWindowShortcut.modifiers, newWindowShortcut.key, (evt: KeyboardEvent) => {
@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { PopNoteProfile } from '../types';
+
+export class ProfileSuggestModal extends FuzzySuggestModal<PopNoteProfile> {
+	private profiles: PopNoteProfile[];
+	private onChoose: (profile: PopNoteProfile) => void;
+
+	constructor(app: App, profiles: PopNoteProfile[], onChoose: (profile: PopNoteProfile) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a PopNote profile...');
+	}
+
+	getItems(): PopNoteProfile[] {
+		return this.profiles;
+	}
+
+	getItemText(profile: PopNoteProfile): string {
+		return profile.name;
+	}
+
+	onChooseItem(profile: PopNoteProfile): void {
+		this.onChoose(profile);
+	}
+}
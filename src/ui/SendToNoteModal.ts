@@ -0,0 +1,112 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { FileSuggest } from './FileSuggest';
+import { SendToOptions } from '../types';
+
+export class SendToNoteModal extends Modal {
+	private file: TFile;
+	private options: SendToOptions;
+	private onSubmit: (options: SendToOptions) => void;
+
+	constructor(app: App, file: TFile, defaults: SendToOptions, onSubmit: (options: SendToOptions) => void) {
+		super(app);
+		this.file = file;
+		this.options = { ...defaults };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		this.titleEl.setText(`Send "${this.file.basename}" to...`);
+		this.render();
+
+		this.contentEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+			// Enter inside the note suggestions selects a note instead
+			if (evt.key === 'Enter' && !evt.isComposing && !document.querySelector('.suggestion-container')) {
+				evt.preventDefault();
+				this.submit();
+			}
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl)
+			.setName('Target')
+			.addDropdown(dropdown => dropdown
+				.addOption('note', 'A note')
+				.addOption('daily', 'Today\'s daily note')
+				.setValue(this.options.target)
+				.onChange(value => {
+					this.options.target = value as 'note' | 'daily';
+					// Show or hide the note field
+					this.render();
+				}));
+
+		if (this.options.target === 'note') {
+			new Setting(contentEl)
+				.setName('Note')
+				.addText(text => {
+					new FileSuggest(this.app, text.inputEl);
+					text
+						.setPlaceholder('Projects/Project.md')
+						.setValue(this.options.notePath)
+						.onChange(value => {
+							this.options.notePath = value.trim();
+						});
+					setTimeout(() => text.inputEl.focus(), 50);
+				});
+		}
+
+		new Setting(contentEl)
+			.setName('Heading')
+			.setDesc('Optional heading to insert under. It is added if missing.')
+			.addText(text => text
+				.setValue(this.options.heading)
+				.onChange(value => {
+					this.options.heading = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Position')
+			.addDropdown(dropdown => dropdown
+				.addOption('append', 'Append')
+				.addOption('prepend', 'Prepend')
+				.setValue(this.options.position)
+				.onChange(value => {
+					this.options.position = value as 'append' | 'prepend';
+				}));
+
+		new Setting(contentEl)
+			.setName('Afterwards')
+			.setDesc('What to do with the PopNote once its text was sent')
+			.addDropdown(dropdown => dropdown
+				.addOption('delete', 'Delete the PopNote')
+				.addOption('archive', 'Archive the PopNote')
+				.setValue(this.options.afterSend)
+				.onChange(value => {
+					this.options.afterSend = value as 'delete' | 'archive';
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Send')
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	private submit() {
+		if (this.options.target === 'note' && !this.options.notePath) {
+			return;
+		}
+		this.close();
+		this.onSubmit({ ...this.options });
+	}
+}
@@ -0,0 +1,66 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { TemplateEngine } from '../core/TemplateEngine';
+
+type MomentInstance = ReturnType<typeof moment>;
+
+const DAILY_NOTES_PLUGIN_ID = 'daily-notes';
+
+interface DailyNoteOptions {
+	folder: string;
+	format: string;
+	template: string;
+}
+
+/**
+ * Options of the core Daily notes plugin, with Obsidian's defaults.
+ */
+export function getDailyNoteOptions(app: App): DailyNoteOptions {
+	const corePlugin = (app as any).internalPlugins?.getPluginById?.(DAILY_NOTES_PLUGIN_ID);
+	const options = corePlugin?.instance?.options || {};
+	return {
+		folder: (options.folder || '').trim(),
+		format: options.format || 'YYYY-MM-DD',
+		template: (options.template || '').trim()
+	};
+}
+
+export function getDailyNotePath(app: App, date: MomentInstance = moment()): string {
+	const { folder, format } = getDailyNoteOptions(app);
+	const fileName = `${date.format(format)}.md`;
+	return normalizePath(folder ? `${folder}/${fileName}` : fileName);
+}
+
+/**
+ * Get the daily note for the given date, creating it from the configured
+ * daily note template if it doesn't exist yet.
+ */
+export async function getOrCreateDailyNote(app: App, date: MomentInstance = moment()): Promise<TFile> {
+	const path = getDailyNotePath(app, date);
+	const existing = app.vault.getAbstractFileByPath(path);
+	if (existing instanceof TFile) {
+		return existing;
+	}
+
+	const { format, template } = getDailyNoteOptions(app);
+	let content = '';
+	if (template) {
+		const templatePath = normalizePath(template.endsWith('.md') ? template : `${template}.md`);
+		const templateFile = app.vault.getAbstractFileByPath(templatePath);
+		if (templateFile instanceof TFile) {
+			content = new TemplateEngine().render(await app.vault.read(templateFile), {
+				now: date,
+				// Daily notes render {{date}} with the daily note format
+				formats: { date: format, time: 'HH:mm' },
+				variables: { title: date.format(format) }
+			});
+		}
+	}
+
+	// Create missing parent folders, the date format may contain slashes
+	const parentPath = path.substring(0, path.lastIndexOf('/'));
+	if (parentPath && !app.vault.getAbstractFileByPath(parentPath)) {
+		await app.vault.createFolder(parentPath);
+	}
+
+	return await app.vault.create(path, content);
+}
@@ -0,0 +1,19 @@
+// Characters that are not allowed in file names on at least one platform, or that break Obsidian links
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+const MAX_FILE_NAME_LENGTH = 100;
+
+/**
+ * Make a name safe to use as a file name. Returns the fallback if nothing of
+ * the name is left.
+ */
+export function sanitizeFileName(name: string, fallback = ''): string {
+	const sanitized = name
+		.replace(INVALID_FILE_NAME_CHARS, ' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.slice(0, MAX_FILE_NAME_LENGTH)
+		// Trailing dots and spaces are not allowed on Windows
+		.replace(/[.\s]+$/, '')
+		.trim();
+	return sanitized || fallback;
+}
@@ -0,0 +1,100 @@
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})(.*)$/;
+
+export function stripFrontmatter(content: string): string {
+	return content.replace(FRONTMATTER_PATTERN, '');
+}
+
+/**
+ * Append a block of text to the end of the content, separated from existing text.
+ */
+export function appendBlock(content: string, text: string, separator = '\n\n'): string {
+	const trimmed = content.replace(/\s+$/, '');
+	return trimmed ? `${trimmed}${separator}${text}` : text;
+}
+
+/**
+ * Prepend a block of text to the content, below its frontmatter if it has one.
+ */
+export function prependBlock(content: string, text: string, separator = '\n\n'): string {
+	const match = content.match(FRONTMATTER_PATTERN);
+	const frontmatter = match ? match[0].replace(/\r?\n$/, '') : '';
+	const body = match ? content.slice(match[0].length) : content;
+	const newBody = body.trim() ? `${text}${separator}${body.replace(/^(\s*\n)+/, '')}` : text;
+	return frontmatter ? `${frontmatter}\n${newBody}` : newBody;
+}
+
+/**
+ * Which lines are inside a fenced code block, including the fences themselves.
+ */
+function getFencedLines(lines: string[]): boolean[] {
+	let openFence: string | null = null;
+	return lines.map(line => {
+		const match = line.match(FENCE_PATTERN);
+		if (openFence === null) {
+			openFence = match ? match[1] : null;
+			return !!match;
+		}
+		// A closing fence uses the same character at least as often, and has no info string
+		const fence = match?.[1];
+		if (fence && fence[0] === openFence[0] && fence.length >= openFence.length && !match[2].trim()) {
+			openFence = null;
+		}
+		return true;
+	});
+}
+
+/**
+ * Insert text at the start or end of the section under the given heading.
+ * The heading may be given with or without leading #. If it doesn't exist,
+ * it is added at the end of the content.
+ */
+export function insertUnderHeading(
+	content: string,
+	heading: string,
+	text: string,
+	position: 'append' | 'prepend' = 'append',
+	separator = '\n\n'
+): string {
+	const headingText = heading.replace(/^#+\s*/, '').trim();
+	const lines = content.split('\n');
+	// Lines starting with # inside code blocks are not headings
+	const fenced = getFencedLines(lines);
+	const headingIndex = lines.findIndex((line, i) => {
+		const match = !fenced[i] && line.match(HEADING_PATTERN);
+		return !!match && match[2].toLowerCase() === headingText.toLowerCase();
+	});
+
+	if (headingIndex === -1) {
+		return appendBlock(content, `## ${headingText}\n\n${text}`);
+	}
+
+	// The section ends at the next heading of the same or a higher level
+	const level = (lines[headingIndex].match(HEADING_PATTERN) as RegExpMatchArray)[1].length;
+	let sectionEnd = lines.length;
+	for (let i = headingIndex + 1; i < lines.length; i++) {
+		const match = !fenced[i] && lines[i].match(HEADING_PATTERN);
+		if (match && match[1].length <= level) {
+			sectionEnd = i;
+			break;
+		}
+	}
+
+	const before = lines.slice(0, headingIndex + 1).join('\n');
+	const section = lines.slice(headingIndex + 1, sectionEnd).join('\n').replace(/^(\s*\n)+|(\n\s*)+$/g, '');
+	const after = lines.slice(sectionEnd).join('\n');
+
+	let newSection: string;
+	if (!section) {
+		newSection = text;
+	} else if (position === 'prepend') {
+		newSection = `${text}${separator}${section}`;
+	} else {
+		newSection = `${section}${separator}${text}`;
+	}
+
+	return after
+		? `${before}\n\n${newSection}\n\n${after}`
+		: `${before}\n\n${newSection}\n`;
+}
@@ -0,0 +1,55 @@
+import { Platform } from 'obsidian';
+
+// undefined until the first lookup, null if remote is not available
+let cachedRemote: any | null | undefined;
+
+/**
+ * Load a Node or Electron module at runtime. They only exist in the desktop
+ * app, so they can't be imported at the top of a module.
+ */
+function requireModule(id: string): any {
+	return require(id);
+}
+
+/**
+ * The Electron remote module, or null on mobile and on Electron builds
+ * without remote. Looked up on first use, so importing PopNote never fails.
+ */
+export function getRemote(): any | null {
+	if (cachedRemote === undefined) {
+		cachedRemote = null;
+		if (Platform.isDesktopApp) {
+			try {
+				cachedRemote = requireModule('electron').remote || null;
+			} catch (e) {
+				// Newer Electron builds have no remote, PopNote falls back to popouts
+			}
+		}
+	}
+	return cachedRemote;
+}
+
+/**
+ * Whether PopNote can manage its own windows and global hotkeys. Without
+ * remote, pop notes open in an Obsidian popout or, on mobile, in a modal.
+ */
+export function hasNativeWindows(): boolean {
+	return !!getRemote()?.BrowserWindow;
+}
+
+/**
+ * Host name of this device, or an empty string where Node is not available.
+ */
+export function getHostname(): string {
+	if (!Platform.isDesktopApp) {
+		return '';
+	}
+	return requireModule('os').hostname();
+}
+
+/**
+ * Write a file anywhere on disk, outside the vault. Desktop only.
+ */
+export async function writeFileToDisk(path: string, data: string | Uint8Array): Promise<void> {
+	await requireModule('fs').promises.writeFile(path, data);
+}